@@ -2,19 +2,51 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { parseYDK, analyzeDeck } from './services/ygoService';
 import { 
-  calculateProbabilities, 
   calculateSwissStandings, 
   calculateTopXProbability, 
-  calculateMultivariateHyper,
+  calculateFinalRecordDistribution,
+  getCardsSeenByTurn,
+  getGroupCount,
+  formatPercent,
+  formatProbability,
+  formatExactPercent,
+  formatOneIn,
   SwissStanding,
-  HyperGroup
+  FinalRecordOutcome,
+  HyperGroup,
+  HyperCard,
+  HandCondition,
+  TurnProbability,
+  ExactProbability,
+  ProbabilityRow
 } from './services/mathUtils';
+import { runMathTask, cancelMathTask, handleMathTaskError, MathTaskCancelledError } from './services/mathClient';
 import { DeckUploader } from './components/DeckUploader';
-import { ProbabilityChart } from './components/ProbabilityChart';
+import { ProbabilityChart, TurnProbabilityChart } from './components/ProbabilityChart';
 import { DeckStats } from './components/DeckStats';
 import { DeckBuilder } from './components/DeckBuilder';
 import { TournamentTracker } from './components/TournamentTracker';
-import { AppView, Card, DeckAnalysis, TournamentReport, TournamentMetadata } from './types';
+import { HandConditionEditor } from './components/HandConditionEditor';
+import { HyperCardList } from './components/HyperCardList';
+import { DrawEffectsPanel } from './components/DrawEffectsPanel';
+import { MonteCarloPanel } from './components/MonteCarloPanel';
+import { RoleReportPanel } from './components/RoleReportPanel';
+import { DeckSizeOptimizer } from './components/DeckSizeOptimizer';
+import { RatioTuner } from './components/RatioTuner';
+import { SwissSimulator } from './components/SwissSimulator';
+import { WinRateInput } from './components/WinRateInput';
+import { IdAdvisor } from './components/IdAdvisor';
+import { TournamentLibrary } from './components/TournamentLibrary';
+import { MatchupAnalytics } from './components/MatchupAnalytics';
+import { ArchetypeDictionary } from './components/ArchetypeDictionary';
+import { SidePlanPanel } from './components/SidePlanPanel';
+import { DeckIssueList } from './components/DeckIssueList';
+import { BanlistSelector } from './components/BanlistSelector';
+import { loadTournamentLibrary } from './services/tournamentLibrary';
+import { applySidePlan, createSidePlan } from './services/sidePlans';
+import { DEFAULT_BANLIST, getBanStatus, resolveBanlist } from './services/banlists';
+import { validateDeck } from './services/deckValidation';
+import { AppView, Archetype, BanlistSelection, BanlistSnapshot, Card, CardRoleMap, DeckAnalysis, SidePlan, TournamentEvent, TournamentReport, TournamentMetadata } from './types';
 
 const App: React.FC = () => {
   const [view, setView] = useState<AppView>(AppView.DASHBOARD);
@@ -24,19 +56,41 @@ const App: React.FC = () => {
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
 
   // Persistence Keys
+  const STORAGE_TOURNAMENTS = 'duelmath_tournaments';
+  const STORAGE_ACTIVE_TOURNAMENT = 'duelmath_active_tournament';
+  // Single-session tracker data from before the tournament library, migrated on load
   const STORAGE_REPORTS = 'duelmath_reports';
   const STORAGE_META = 'duelmath_metadata';
   const STORAGE_DECK = 'duelmath_cached_ydk';
+  const STORAGE_ROLES = 'duelmath_card_roles';
+  const STORAGE_ARCHETYPES = 'duelmath_archetypes';
+  const STORAGE_SIDE_PLANS = 'duelmath_side_plans';
+  const STORAGE_BANLIST = 'duelmath_banlist';
+  const STORAGE_BANLIST_SNAPSHOTS = 'duelmath_banlist_snapshots';
 
   // Probability State
   const [selectedCards, setSelectedCards] = useState<Set<string>>(new Set());
   const [handSize, setHandSize] = useState(5);
-  const [probResults, setProbResults] = useState<any[]>([]);
+  const [probResults, setProbResults] = useState<ProbabilityRow[]>([]);
+  const [turnMinCopies, setTurnMinCopies] = useState(1);
+  const [turnHorizon, setTurnHorizon] = useState(5);
+  const [turnResults, setTurnResults] = useState<TurnProbability[]>([]);
+  const [cardRoles, setCardRoles] = useState<CardRoleMap>({});
+
+  // Deck Builder considerations, kept here so the Dashboard optimizer can use them
+  const [considerations, setConsiderations] = useState<Card[]>([]);
+
+  // Banlist State, shared by every legality check
+  const [banlistSelection, setBanlistSelection] = useState<BanlistSelection>(DEFAULT_BANLIST);
+  const [banlistSnapshots, setBanlistSnapshots] = useState<BanlistSnapshot[]>([]);
+  const banlist = useMemo(() => resolveBanlist(banlistSelection, banlistSnapshots), [banlistSelection, banlistSnapshots]);
 
   // Side Decking State
   const [isSideDeckMode, setIsSideDeckMode] = useState(false);
   const [swapOutIndices, setSwapOutIndices] = useState<Set<number>>(new Set());
   const [swapInIndices, setSwapInIndices] = useState<Set<number>>(new Set());
+  const [sidePlans, setSidePlans] = useState<SidePlan[]>([]);
+  const [appliedSidePlanId, setAppliedSidePlanId] = useState<string | null>(null);
 
   // Swiss Calculator State
   const [swissPlayers, setSwissPlayers] = useState<number>(64);
@@ -48,47 +102,114 @@ const App: React.FC = () => {
   const [currentWins, setCurrentWins] = useState<number>(0);
   const [currentLosses, setCurrentLosses] = useState<number>(0);
   const [topXProbability, setTopXProbability] = useState<number | null>(null);
+  const [personalWinRate, setPersonalWinRate] = useState<number>(50);
+  const [finalRecordOdds, setFinalRecordOdds] = useState<FinalRecordOutcome[]>([]);
 
   // Hyper Calculator State
   const [hyperDeckSize, setHyperDeckSize] = useState(40);
   const [hyperHandSize, setHyperHandSize] = useState(5);
   const [hyperGroups, setHyperGroups] = useState<HyperGroup[]>([
-    { id: '1', name: 'Starters', countInDeck: 9, minDesired: 1, maxDesired: 5 }
+    { id: '1', name: 'Starters', minDesired: 1, maxDesired: 5 }
   ]);
-  const [hyperResult, setHyperResult] = useState<number | null>(null);
+  const [hyperCards, setHyperCards] = useState<HyperCard[]>([
+    { id: '1', name: 'Starter', copies: 9, groupIds: ['1'] }
+  ]);
+  const [hyperResult, setHyperResult] = useState<ExactProbability | null>(null);
+  const [hyperPrecision, setHyperPrecision] = useState(2);
+  const [hyperConditions, setHyperConditions] = useState<HandCondition[]>([]);
+  const [hyperConditionResult, setHyperConditionResult] = useState<ExactProbability | null>(null);
+  const [hyperTurns, setHyperTurns] = useState(5);
+  const [hyperTurnResults, setHyperTurnResults] = useState<TurnProbability[]>([]);
+  const [isHyperCalculating, setIsHyperCalculating] = useState(false);
 
   // Tournament Tracker State
-  const [tournamentReports, setTournamentReports] = useState<TournamentReport[]>([]);
-  const [tournamentMetadata, setTournamentMetadata] = useState<TournamentMetadata>({
-    eventName: '',
-    deckName: '',
-  });
+  const [tournaments, setTournaments] = useState<TournamentEvent[]>([]);
+  const [activeTournamentId, setActiveTournamentId] = useState<string | null>(null);
+  const [loadedYdk, setLoadedYdk] = useState<string | null>(null);
+  const [archetypes, setArchetypes] = useState<Archetype[]>([]);
+
+  const activeTournament = tournaments.find(t => t.id === activeTournamentId) || null;
+  const tournamentReports = activeTournament?.reports ?? [];
+  const tournamentMetadata: TournamentMetadata = activeTournament?.metadata ?? { eventName: '', deckName: '' };
+  const allTournamentReports = useMemo(() => tournaments.flatMap(t => t.reports), [tournaments]);
+
+  // The tracker edits the active event through these, as it did the single session before
+  const updateActiveTournament = (update: (t: TournamentEvent) => TournamentEvent) => {
+    setTournaments(prev => prev.map(t => t.id === activeTournamentId ? update(t) : t));
+  };
+  const setTournamentReports: React.Dispatch<React.SetStateAction<TournamentReport[]>> = action =>
+    updateActiveTournament(t => ({ ...t, reports: typeof action === 'function' ? action(t.reports) : action }));
+  const setTournamentMetadata: React.Dispatch<React.SetStateAction<TournamentMetadata>> = action =>
+    updateActiveTournament(t => ({ ...t, metadata: typeof action === 'function' ? action(t.metadata) : action }));
 
   // Load Persisted Data
   useEffect(() => {
-    const savedReports = localStorage.getItem(STORAGE_REPORTS);
-    const savedMeta = localStorage.getItem(STORAGE_META);
     const savedDeck = localStorage.getItem(STORAGE_DECK);
-
-    if (savedReports) setTournamentReports(JSON.parse(savedReports));
-    if (savedMeta) setTournamentMetadata(JSON.parse(savedMeta));
+    const savedRoles = localStorage.getItem(STORAGE_ROLES);
+    const savedArchetypes = localStorage.getItem(STORAGE_ARCHETYPES);
+    const savedSidePlans = localStorage.getItem(STORAGE_SIDE_PLANS);
+    const savedBanlist = localStorage.getItem(STORAGE_BANLIST);
+    const savedBanlistSnapshots = localStorage.getItem(STORAGE_BANLIST_SNAPSHOTS);
+
+    const library = loadTournamentLibrary(
+      localStorage.getItem(STORAGE_TOURNAMENTS),
+      localStorage.getItem(STORAGE_ACTIVE_TOURNAMENT),
+      localStorage.getItem(STORAGE_REPORTS),
+      localStorage.getItem(STORAGE_META)
+    );
+    if (library.migrated) {
+      // Saved here rather than by the save effect, so the legacy keys are never gone before the library exists
+      localStorage.setItem(STORAGE_TOURNAMENTS, JSON.stringify(library.tournaments));
+      localStorage.setItem(STORAGE_ACTIVE_TOURNAMENT, library.activeId);
+      localStorage.removeItem(STORAGE_REPORTS);
+      localStorage.removeItem(STORAGE_META);
+    }
+    setTournaments(library.tournaments);
+    setActiveTournamentId(library.activeId);
+
+    if (savedRoles) setCardRoles(JSON.parse(savedRoles));
+    if (savedArchetypes) setArchetypes(JSON.parse(savedArchetypes));
+    if (savedSidePlans) setSidePlans(JSON.parse(savedSidePlans));
+    if (savedBanlist) setBanlistSelection(JSON.parse(savedBanlist));
+    if (savedBanlistSnapshots) setBanlistSnapshots(JSON.parse(savedBanlistSnapshots));
     if (savedDeck) handleDeckUpload(savedDeck, false); // false = don't re-save
   }, []);
 
   // Save Tournament Data on Change
   useEffect(() => {
-    localStorage.setItem(STORAGE_REPORTS, JSON.stringify(tournamentReports));
-  }, [tournamentReports]);
+    if (tournaments.length > 0) localStorage.setItem(STORAGE_TOURNAMENTS, JSON.stringify(tournaments));
+  }, [tournaments]);
+
+  useEffect(() => {
+    if (activeTournamentId) localStorage.setItem(STORAGE_ACTIVE_TOURNAMENT, activeTournamentId);
+  }, [activeTournamentId]);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_ROLES, JSON.stringify(cardRoles));
+  }, [cardRoles]);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_ARCHETYPES, JSON.stringify(archetypes));
+  }, [archetypes]);
 
   useEffect(() => {
-    localStorage.setItem(STORAGE_META, JSON.stringify(tournamentMetadata));
-  }, [tournamentMetadata]);
+    localStorage.setItem(STORAGE_SIDE_PLANS, JSON.stringify(sidePlans));
+  }, [sidePlans]);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_BANLIST, JSON.stringify(banlistSelection));
+  }, [banlistSelection]);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_BANLIST_SNAPSHOTS, JSON.stringify(banlistSnapshots));
+  }, [banlistSnapshots]);
 
   // Handlers
   const handleDeckUpload = async (content: string, shouldCache = true) => {
     setLoadingDeck(true);
     try {
       if (shouldCache) localStorage.setItem(STORAGE_DECK, content);
+      setLoadedYdk(content);
       const rawDeck = parseYDK(content);
       const analysis = await analyzeDeck(rawDeck);
       setDeckAnalysis(analysis);
@@ -102,6 +223,7 @@ const App: React.FC = () => {
       setSwapOutIndices(new Set());
       setSwapInIndices(new Set());
       setIsSideDeckMode(false);
+      setAppliedSidePlanId(null);
     } catch (e) {
       console.error(e);
       alert("Error parsing deck");
@@ -121,6 +243,7 @@ const App: React.FC = () => {
       setSwapInIndices(new Set());
       setSwapOutIndices(new Set());
       setIsSideDeckMode(false);
+      setAppliedSidePlanId(null);
       setProbResults([]);
       setSelectedCards(new Set()); 
     }
@@ -164,6 +287,32 @@ const App: React.FC = () => {
     setSwapInIndices(new Set());
     setSwapOutIndices(new Set());
     setIsSideDeckMode(false);
+    setAppliedSidePlanId(null);
+  };
+
+  // Keeps the selected swap as a plan to edit in the Side Plans panel
+  const saveSwapAsPlan = () => {
+    if (!deckAnalysis) return;
+    const movingOut = Array.from(swapOutIndices).map(idx => deckAnalysis.mainDetails[idx]);
+    const movingIn = Array.from(swapInIndices).map(idx => deckAnalysis.sideDetails[idx]);
+    setSidePlans(prev => [...prev, createSidePlan(`Plan ${prev.length + 1}`, '', 'second', movingIn, movingOut)]);
+  };
+
+  // Plans describe changes to the deck as loaded, so siding always starts from it
+  const handleApplySidePlan = (plan: SidePlan) => {
+    if (!originalDeckAnalysis) return;
+    const sided = applySidePlan(plan, originalDeckAnalysis.mainDetails, originalDeckAnalysis.sideDetails);
+    setDeckAnalysis({
+      ...originalDeckAnalysis,
+      mainDetails: sided.main,
+      sideDetails: sided.side,
+      extraDetails: [...originalDeckAnalysis.extraDetails],
+      counts: { ...originalDeckAnalysis.counts, main: sided.main.length, side: sided.side.length }
+    });
+    setSwapInIndices(new Set());
+    setSwapOutIndices(new Set());
+    setIsSideDeckMode(false);
+    setAppliedSidePlanId(plan.id);
   };
 
   const targetCopiesFound = useMemo(() => {
@@ -173,46 +322,105 @@ const App: React.FC = () => {
 
   useEffect(() => {
     if (!deckAnalysis || selectedCards.size === 0 || handSize <= 0) {
+      cancelMathTask('deckProbabilities');
       setProbResults([]);
       return;
     }
-    const results = calculateProbabilities(deckAnalysis.mainDetails.length, targetCopiesFound, handSize);
-    setProbResults(results);
+    runMathTask('deckProbabilities', {
+      kind: 'deckProbabilities',
+      deckSize: deckAnalysis.mainDetails.length,
+      targetCount: targetCopiesFound,
+      handSize
+    }).then(setProbResults).catch(handleMathTaskError);
   }, [deckAnalysis, selectedCards, handSize, targetCopiesFound]);
 
+  useEffect(() => {
+    if (!deckAnalysis || targetCopiesFound === 0 || turnHorizon <= 0) {
+      cancelMathTask('deckByTurn');
+      setTurnResults([]);
+      return;
+    }
+    runMathTask('deckByTurn', {
+      kind: 'deckByTurn',
+      deckSize: deckAnalysis.mainDetails.length,
+      targetCount: targetCopiesFound,
+      minCopies: turnMinCopies,
+      maxTurns: turnHorizon
+    }).then(setTurnResults).catch(handleMathTaskError);
+  }, [deckAnalysis, targetCopiesFound, turnMinCopies, turnHorizon]);
+
   const handleSwissCalculate = () => {
     if (swissPlayers <= 0 || swissRounds <= 0) {
       setSwissResults([]);
       setTopXProbability(null);
+      setFinalRecordOdds([]);
       return;
     }
     const results = calculateSwissStandings(swissPlayers, swissRounds);
     setSwissResults(results);
-    const prob = calculateTopXProbability(swissPlayers, swissRounds, targetRank, currentWins, currentLosses);
+    const prob = calculateTopXProbability(swissPlayers, swissRounds, targetRank, currentWins, currentLosses, personalWinRate / 100);
     setTopXProbability(prob);
+    setFinalRecordOdds(calculateFinalRecordDistribution(swissRounds, currentWins, currentLosses, personalWinRate / 100));
   };
 
   const handleHyperCalculate = () => {
-    const result = calculateMultivariateHyper(hyperDeckSize, hyperHandSize, hyperGroups);
-    setHyperResult(parseFloat(result.toFixed(2)));
+    setIsHyperCalculating(true);
+    let superseded = false;
+    runMathTask('hyper', {
+      kind: 'hyper',
+      deckSize: hyperDeckSize,
+      handSize: hyperHandSize,
+      groups: hyperGroups,
+      cards: hyperCards,
+      conditions: hyperConditions,
+      precision: hyperPrecision + 2
+    }).then(result => {
+      setHyperResult(result.allGroups);
+      setHyperConditionResult(result.anyCondition);
+    }).catch(error => {
+      superseded = error instanceof MathTaskCancelledError;
+      handleMathTaskError(error);
+    }).finally(() => {
+      // A superseded run leaves the spinner to the request that replaced it
+      if (!superseded) setIsHyperCalculating(false);
+    });
   };
 
   const addHyperGroup = () => {
     setHyperGroups([...hyperGroups, { 
       id: Date.now().toString(), 
       name: `Group ${hyperGroups.length + 1}`, 
-      countInDeck: 9, 
       minDesired: 1, 
       maxDesired: 5 
     }]);
   };
 
-  const removeHyperGroup = (id: string) => setHyperGroups(hyperGroups.filter(g => g.id !== id));
+  const removeHyperGroup = (id: string) => {
+    setHyperGroups(hyperGroups.filter(g => g.id !== id));
+    setHyperCards(hyperCards.map(c => ({ ...c, groupIds: c.groupIds.filter(groupId => groupId !== id) })));
+    setHyperConditions(hyperConditions.map(c => ({ ...c, requirements: c.requirements.filter(r => r.groupId !== id) })));
+  };
   const updateHyperGroup = (id: string, updates: Partial<HyperGroup>) => {
     setHyperGroups(hyperGroups.map(g => g.id === id ? { ...g, ...updates } : g));
   };
 
-  useEffect(() => { handleHyperCalculate(); }, [hyperDeckSize, hyperHandSize, hyperGroups]);
+  useEffect(() => {
+    if (hyperTurns <= 0) {
+      cancelMathTask('hyperByTurn');
+      setHyperTurnResults([]);
+      return;
+    }
+    runMathTask('hyperByTurn', {
+      kind: 'hyperByTurn',
+      deckSize: hyperDeckSize,
+      maxTurns: hyperTurns,
+      groups: hyperGroups,
+      cards: hyperCards,
+      conditions: hyperConditions
+    }).then(setHyperTurnResults).catch(handleMathTaskError);
+  }, [hyperDeckSize, hyperTurns, hyperGroups, hyperCards, hyperConditions]);
+
+  useEffect(() => { handleHyperCalculate(); }, [hyperDeckSize, hyperHandSize, hyperGroups, hyperCards, hyperConditions, hyperPrecision]);
   useEffect(() => { if (view === AppView.SWISS_CALCULATOR) handleSwissCalculate(); }, [view]);
 
   const groupedMain = useMemo(() => {
@@ -257,8 +465,12 @@ const App: React.FC = () => {
     };
   }, [deckAnalysis]);
 
+  const deckIssues = useMemo(() => deckAnalysis
+    ? validateDeck({ main: deckAnalysis.mainDetails, extra: deckAnalysis.extraDetails, side: deckAnalysis.sideDetails }, banlist)
+    : [], [deckAnalysis, banlist]);
+
   const renderBanStatus = (card: Card) => {
-    const status = card.banlist_info?.ban_tcg;
+    const status = getBanStatus(card, banlist);
     if (!status) return null;
     let bgColor = "bg-slate-700";
     let text = status === 'Forbidden' ? "0" : status === 'Limited' ? "1" : "2";
@@ -334,6 +546,13 @@ const App: React.FC = () => {
         <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2" /></svg>
         Tournament Tracker
       </button>
+      <button 
+        onClick={() => { setView(AppView.MATCHUP_ANALYTICS); onSelect?.(); }}
+        className={`w-full text-left px-4 py-3 rounded-lg flex items-center gap-3 transition-colors ${view === AppView.MATCHUP_ANALYTICS ? 'bg-emerald-500/10 text-emerald-400' : 'hover:bg-slate-900 text-slate-400'}`}
+      >
+        <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 12l3-3 3 3 4-4M8 21l4-4 4 4M3 4h18M4 4h16v12a1 1 0 01-1 1H5a1 1 0 01-1-1V4z" /></svg>
+        Matchup Analytics
+      </button>
       <button 
          onClick={() => { setView(AppView.HYPER_CALC); onSelect?.(); }}
          className={`w-full text-left px-4 py-3 rounded-lg flex items-center gap-3 transition-colors ${view === AppView.HYPER_CALC ? 'bg-cyan-500/10 text-cyan-400' : 'hover:bg-slate-900 text-slate-400'}`}
@@ -359,8 +578,9 @@ const App: React.FC = () => {
           <h2 className="text-xl font-bold text-cyan-400 tracking-tight">DuelMath</h2>
           <button onClick={() => setIsMobileMenuOpen(!isMobileMenuOpen)} className="p-2 text-slate-400"><svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h16" /></svg></button>
         </div>
-        <div className={`overflow-hidden transition-all bg-slate-900 border-b border-slate-800 ${isMobileMenuOpen ? 'max-h-[600px] py-4' : 'max-h-0'}`}>
+        <div className={`overflow-hidden transition-all bg-slate-900 border-b border-slate-800 ${isMobileMenuOpen ? 'max-h-[800px] py-4' : 'max-h-0'}`}>
           <nav className="px-4 space-y-1"><NavItems onSelect={() => setIsMobileMenuOpen(false)} /></nav>
+          <div className="px-4 pt-4 mt-4 border-t border-slate-800"><BanlistSelector selection={banlistSelection} setSelection={setBanlistSelection} snapshots={banlistSnapshots} setSnapshots={setBanlistSnapshots} banlist={banlist} /></div>
         </div>
       </header>
 
@@ -373,6 +593,10 @@ const App: React.FC = () => {
         <nav className="px-4 space-y-2 mt-4 flex-1">
           <NavItems />
         </nav>
+
+        <div className="p-4 border-t border-slate-800">
+          <BanlistSelector selection={banlistSelection} setSelection={setBanlistSelection} snapshots={banlistSnapshots} setSnapshots={setBanlistSnapshots} banlist={banlist} />
+        </div>
       </aside>
 
       <main className="flex-1 overflow-auto p-4 md:p-8">
@@ -380,7 +604,7 @@ const App: React.FC = () => {
           <div className="max-w-[1800px] mx-auto space-y-6 w-full">
             <header className="mb-4">
               <h1 className="text-2xl md:text-3xl font-bold text-white mb-1">Deck Analysis</h1>
-              <p className="text-slate-400 text-sm">Import your YDK file to calculate drawing probabilities.</p>
+              <p className="text-slate-400 text-sm">Import a YDK file, ydke:// link or text decklist to calculate drawing probabilities.</p>
             </header>
             
             <DeckUploader onUpload={handleDeckUpload} />
@@ -400,6 +624,7 @@ const App: React.FC = () => {
             {deckAnalysis && !loadingDeck && (
               <div className="grid grid-cols-1 lg:grid-cols-12 gap-6 animate-in fade-in duration-500">
                 <div className="lg:col-span-8 xl:col-span-9 space-y-6">
+                  <DeckIssueList issues={deckIssues} context={banlist.label} />
                   <div className="bg-slate-800/50 rounded-xl border border-slate-700 p-5 flex flex-col">
                     <div className="flex justify-between items-center mb-6">
                       <h2 className="text-lg font-bold text-white">Main Deck ({deckAnalysis.counts.main})</h2>
@@ -408,7 +633,7 @@ const App: React.FC = () => {
                         <button onClick={() => setIsSideDeckMode(!isSideDeckMode)} className={`px-3 py-1.5 rounded text-[10px] font-bold uppercase transition-all ${isSideDeckMode ? 'bg-red-500/20 text-red-400 border border-red-500/50' : 'bg-amber-500/20 text-amber-400 border border-amber-500/50'}`}>{isSideDeckMode ? 'Cancel' : 'Access Side Deck'}</button>
                       </div>
                     </div>
-                    {isSideDeckMode && <div className="mb-4 p-3 bg-amber-500/10 border border-amber-500/30 rounded-lg flex justify-between items-center"><p className="text-slate-400 text-[10px]">Click individual cards to swap. <b>{swapOutIndices.size} Out ↔ {swapInIndices.size} In</b></p><button disabled={swapInIndices.size !== swapOutIndices.size || swapInIndices.size === 0} onClick={confirmSwap} className="px-4 py-1.5 bg-emerald-600 disabled:opacity-30 text-white text-[10px] font-bold rounded uppercase transition-all">Confirm</button></div>}
+                    {isSideDeckMode && <div className="mb-4 p-3 bg-amber-500/10 border border-amber-500/30 rounded-lg flex justify-between items-center"><p className="text-slate-400 text-[10px]">Click individual cards to swap. <b>{swapOutIndices.size} Out ↔ {swapInIndices.size} In</b></p><div className="flex gap-2"><button disabled={swapInIndices.size !== swapOutIndices.size || swapInIndices.size === 0} onClick={saveSwapAsPlan} className="px-4 py-1.5 bg-slate-700 disabled:opacity-30 text-white text-[10px] font-bold rounded uppercase transition-all">Save as Plan</button><button disabled={swapInIndices.size !== swapOutIndices.size || swapInIndices.size === 0} onClick={confirmSwap} className="px-4 py-1.5 bg-emerald-600 disabled:opacity-30 text-white text-[10px] font-bold rounded uppercase transition-all">Confirm</button></div></div>}
                     <div className="space-y-6">
                       {isSideDeckMode ? (
                         <>
@@ -426,6 +651,11 @@ const App: React.FC = () => {
                     </div>
                   </div>
                   {isSideDeckMode && <div className="bg-slate-800/50 rounded-xl border border-slate-700 p-5"><h2 className="text-lg font-bold text-white mb-4">Side Deck ({deckAnalysis.counts.side})</h2><div className="space-y-4">{flatSide.monsters.length > 0 && <div><h3 className="text-[10px] font-bold text-amber-500 uppercase mb-2">Monsters</h3>{renderFlatGrid(flatSide.monsters, true)}</div>}{flatSide.spells.length > 0 && <div><h3 className="text-[10px] font-bold text-emerald-500 uppercase mb-2">Spells</h3>{renderFlatGrid(flatSide.spells, true)}</div>}{flatSide.traps.length > 0 && <div><h3 className="text-[10px] font-bold text-pink-500 uppercase mb-2">Traps</h3>{renderFlatGrid(flatSide.traps, true)}</div>}</div></div>}
+                  {originalDeckAnalysis && <SidePlanPanel main={originalDeckAnalysis.mainDetails} side={originalDeckAnalysis.sideDetails} plans={sidePlans} setPlans={setSidePlans} archetypes={archetypes} appliedPlanId={appliedSidePlanId} onApply={handleApplySidePlan} />}
+                  <RoleReportPanel deck={deckAnalysis.mainDetails} sideDeck={deckAnalysis.sideDetails} handSize={handSize} roles={cardRoles} setRoles={setCardRoles} />
+                  <DeckSizeOptimizer deck={deckAnalysis.mainDetails} sideDeck={deckAnalysis.sideDetails} considerations={considerations} handSize={handSize} roles={cardRoles} banlist={banlist} />
+                  <RatioTuner deck={deckAnalysis.mainDetails} sideDeck={deckAnalysis.sideDetails} considerations={considerations} handSize={handSize} roles={cardRoles} banlist={banlist} />
+                  <MonteCarloPanel deck={deckAnalysis.mainDetails} handSize={handSize} selectedCards={selectedCards} />
                 </div>
                 <div className="lg:col-span-4 xl:col-span-3 space-y-6">
                   <DeckStats cards={deckAnalysis.mainDetails} />
@@ -455,11 +685,31 @@ const App: React.FC = () => {
                         {probResults.map((row) => (
                           <div key={row.drawCount} className="grid grid-cols-3 gap-1 text-center py-1 border-b border-slate-700/30 text-xs">
                             <div className="text-slate-300">{row.drawCount}</div>
-                            <div className="text-slate-400">{row.exact.toFixed(1)}%</div>
-                            <div className="text-cyan-400 font-bold">{row.cumulativeAtLeast.toFixed(1)}%</div>
+                            <div className="text-slate-400" title={formatOneIn(row.exactProbability)}>{formatProbability(row.exactProbability, 1)}</div>
+                            <div className="text-cyan-400 font-bold" title={formatOneIn(row.atLeastProbability)}>{formatProbability(row.atLeastProbability, 1)}</div>
                           </div>
                         ))}
                         <ProbabilityChart data={probResults} />
+                        <div className="pt-4 mt-2 border-t border-slate-700/50 space-y-3">
+                          <h3 className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">By Turn</h3>
+                          <div className="grid grid-cols-2 gap-2">
+                            <div><label className="text-[10px] text-slate-500 uppercase block mb-1">At Least</label><input type="number" min={1} value={turnMinCopies || ''} onChange={(e) => setTurnMinCopies(parseInt(e.target.value) || 0)} className="w-full bg-slate-700 text-white rounded px-3 py-1.5 border border-slate-600 outline-none text-sm" /></div>
+                            <div><label className="text-[10px] text-slate-500 uppercase block mb-1">Turns</label><input type="number" min={1} max={20} value={turnHorizon || ''} onChange={(e) => setTurnHorizon(Math.min(20, parseInt(e.target.value) || 0))} className="w-full bg-slate-700 text-white rounded px-3 py-1.5 border border-slate-600 outline-none text-sm" /></div>
+                          </div>
+                          <div className="grid grid-cols-3 gap-1 text-center text-[10px] font-bold text-slate-500 uppercase">
+                            <div>Turn</div>
+                            <div>1st</div>
+                            <div>2nd</div>
+                          </div>
+                          {turnResults.map((row) => (
+                            <div key={row.turn} className="grid grid-cols-3 gap-1 text-center py-1 border-b border-slate-700/30 text-xs">
+                              <div className="text-slate-300">T{row.turn}</div>
+                              <div className="text-cyan-400 font-bold">{formatPercent(row.goingFirst, 1)}</div>
+                              <div className="text-amber-400 font-bold">{formatPercent(row.goingSecond, 1)}</div>
+                            </div>
+                          ))}
+                          <TurnProbabilityChart data={turnResults} title={`Seen at least ${turnMinCopies} by turn`} />
+                        </div>
                       </div>
                     )}
                   </div>
@@ -469,21 +719,33 @@ const App: React.FC = () => {
           </div>
         )}
 
-        {view === AppView.DECK_BUILDER && <div className="max-w-[1800px] mx-auto pb-8"><header className="mb-6"><h1 className="text-2xl md:text-3xl font-bold text-white mb-1">Deck Builder</h1></header><DeckBuilder /></div>}
-        {view === AppView.TOURNAMENT_TRACKER && <TournamentTracker reports={tournamentReports} setReports={setTournamentReports} metadata={tournamentMetadata} setMetadata={setTournamentMetadata} />}
+        {view === AppView.DECK_BUILDER && <div className="max-w-[1800px] mx-auto pb-8"><header className="mb-6"><h1 className="text-2xl md:text-3xl font-bold text-white mb-1">Deck Builder</h1></header><DeckBuilder considerations={considerations} setConsiderations={setConsiderations} metadata={tournamentMetadata} setMetadata={setTournamentMetadata} banlist={banlist} /></div>}
+        {view === AppView.TOURNAMENT_TRACKER && (
+          <div className="space-y-6">
+            <TournamentLibrary tournaments={tournaments} setTournaments={setTournaments} activeId={activeTournamentId} setActiveId={setActiveTournamentId} loadedYdk={loadedYdk} onLoadDeck={(ydk) => { handleDeckUpload(ydk); setView(AppView.DASHBOARD); }} />
+            {activeTournament && <TournamentTracker key={activeTournament.id} reports={tournamentReports} setReports={setTournamentReports} metadata={tournamentMetadata} setMetadata={setTournamentMetadata} archetypes={archetypes} sidePlans={sidePlans} />}
+          </div>
+        )}
+        {view === AppView.MATCHUP_ANALYTICS && (
+          <div className="max-w-[1600px] mx-auto w-full space-y-6">
+            <header className="mb-6"><h1 className="text-2xl md:text-3xl font-bold text-white mb-1">Matchup Analytics</h1><p className="text-slate-400 text-sm">Every logged event, grouped by opponent deck.</p></header>
+            <MatchupAnalytics reports={allTournamentReports} archetypes={archetypes} />
+            <ArchetypeDictionary archetypes={archetypes} setArchetypes={setArchetypes} reports={allTournamentReports} />
+          </div>
+        )}
         {view === AppView.HYPER_CALC && (
           <div className="max-w-[1600px] mx-auto space-y-8 w-full">
             <header className="mb-6"><h1 className="text-2xl md:text-3xl font-bold text-white mb-2">Hypergeometric Calculator</h1></header>
             <div className="grid grid-cols-1 lg:grid-cols-12 gap-8">
-              <div className="lg:col-span-8 xl:col-span-9 space-y-6"><div className="bg-slate-800 rounded-xl border border-slate-700 p-6"><div className="grid grid-cols-1 sm:grid-cols-2 gap-6 mb-6"><div><label className="block text-sm font-medium text-slate-400 mb-2">Deck Size (0-60)</label><input type="number" value={hyperDeckSize || ''} onChange={(e) => setHyperDeckSize(Math.min(60, parseInt(e.target.value) || 0))} className="w-full bg-slate-700 text-white rounded-lg px-4 py-2 border border-slate-600 outline-none" /></div><div><label className="block text-sm font-medium text-slate-400 mb-2">Hand Size</label><input type="number" value={hyperHandSize || ''} onChange={(e) => setHyperHandSize(parseInt(e.target.value) || 0)} className="w-full bg-slate-700 text-white rounded-lg px-4 py-2 border border-slate-600 outline-none" /></div></div><div className="space-y-4"><div className="flex justify-between items-center"><h3 className="text-sm font-bold text-white uppercase tracking-wider">Card Groups</h3><button onClick={addHyperGroup} className="text-xs px-3 py-1 bg-cyan-600 hover:bg-cyan-500 text-white rounded font-medium">+ Add Group</button></div><div className="grid grid-cols-1 xl:grid-cols-2 gap-4">{hyperGroups.map((group) => (<div key={group.id} className="p-4 bg-slate-900/50 rounded-lg border border-slate-700 space-y-4"><div className="flex gap-4 items-center"><input type="text" value={group.name} onChange={(e) => updateHyperGroup(group.id, { name: e.target.value })} className="flex-1 bg-transparent border-b border-slate-700 outline-none text-white font-medium" /><button onClick={() => removeHyperGroup(group.id)} className="text-slate-500 hover:text-red-400"><svg className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" /></svg></button></div><div className="grid grid-cols-3 gap-2"><div><label className="text-[10px] text-slate-500 uppercase">Copies</label><input type="number" value={group.countInDeck || ''} onChange={(e) => updateHyperGroup(group.id, { countInDeck: parseInt(e.target.value) || 0 })} className="w-full bg-slate-800 text-white text-sm rounded p-2 border border-slate-700" /></div><div><label className="text-[10px] text-slate-500 uppercase">Min</label><input type="number" value={group.minDesired || ''} onChange={(e) => updateHyperGroup(group.id, { minDesired: parseInt(e.target.value) || 0 })} className="w-full bg-slate-800 text-white text-sm rounded p-2 border border-slate-700" /></div><div><label className="text-[10px] text-slate-500 uppercase">Max</label><input type="number" value={group.maxDesired || ''} onChange={(e) => updateHyperGroup(group.id, { maxDesired: parseInt(e.target.value) || 0 })} className="w-full bg-slate-800 text-white text-sm rounded p-2 border border-slate-700" /></div></div></div>))}</div></div></div></div>
-              <div className="lg:col-span-4 xl:col-span-3 space-y-6"><div className="bg-slate-800 rounded-xl border border-slate-700 p-6 sticky top-8 shadow-2xl"><h2 className="text-xl font-bold text-white mb-2">Result</h2><p className="text-xs text-slate-400 mb-6">Probability of satisfying <strong>ALL</strong> group constraints simultaneously.</p>{hyperResult !== null && (<div className="space-y-4"><div className="text-center p-6 bg-slate-900 rounded-xl border border-cyan-500/20"><div className="text-5xl font-black text-cyan-400 mb-2">{hyperResult.toFixed(2)}%</div><div className="text-[10px] text-slate-500 uppercase font-bold">Compound Chance</div></div><div className="p-4 bg-slate-900/30 rounded-lg border border-slate-800 text-[10px] text-slate-400 space-y-2"><div className="font-bold text-slate-300 uppercase mb-1">Constraints:</div>{hyperGroups.map(group => (<div key={group.id} className="flex justify-between items-center"><span>{group.name}:</span><span className="text-cyan-500 font-mono">{group.minDesired}-{group.maxDesired}x</span></div>))}</div></div>)}</div></div>
+              <div className="lg:col-span-8 xl:col-span-9 space-y-6"><div className="bg-slate-800 rounded-xl border border-slate-700 p-6"><div className="grid grid-cols-1 sm:grid-cols-2 gap-6 mb-6"><div><label className="block text-sm font-medium text-slate-400 mb-2">Deck Size (0-60)</label><input type="number" value={hyperDeckSize || ''} onChange={(e) => setHyperDeckSize(Math.min(60, parseInt(e.target.value) || 0))} className="w-full bg-slate-700 text-white rounded-lg px-4 py-2 border border-slate-600 outline-none" /></div><div><div className="flex justify-between items-center mb-2"><label className="block text-sm font-medium text-slate-400">Hand Size</label><div className="flex gap-1"><button onClick={() => setHyperHandSize(getCardsSeenByTurn(1, 'first'))} className={`px-2 py-0.5 rounded text-[10px] font-bold uppercase ${hyperHandSize === getCardsSeenByTurn(1, 'first') ? 'bg-cyan-600 text-white' : 'bg-slate-700 text-slate-400'}`}>1st</button><button onClick={() => setHyperHandSize(getCardsSeenByTurn(1, 'second'))} className={`px-2 py-0.5 rounded text-[10px] font-bold uppercase ${hyperHandSize === getCardsSeenByTurn(1, 'second') ? 'bg-amber-600 text-white' : 'bg-slate-700 text-slate-400'}`}>2nd</button></div></div><input type="number" value={hyperHandSize || ''} onChange={(e) => setHyperHandSize(parseInt(e.target.value) || 0)} className="w-full bg-slate-700 text-white rounded-lg px-4 py-2 border border-slate-600 outline-none" /></div></div><div className="space-y-4"><div className="flex justify-between items-center"><h3 className="text-sm font-bold text-white uppercase tracking-wider">Card Groups</h3><button onClick={addHyperGroup} className="text-xs px-3 py-1 bg-cyan-600 hover:bg-cyan-500 text-white rounded font-medium">+ Add Group</button></div><div className="grid grid-cols-1 xl:grid-cols-2 gap-4">{hyperGroups.map((group) => (<div key={group.id} className="p-4 bg-slate-900/50 rounded-lg border border-slate-700 space-y-4"><div className="flex gap-4 items-center"><input type="text" value={group.name} onChange={(e) => updateHyperGroup(group.id, { name: e.target.value })} className="flex-1 bg-transparent border-b border-slate-700 outline-none text-white font-medium" /><button onClick={() => removeHyperGroup(group.id)} className="text-slate-500 hover:text-red-400"><svg className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" /></svg></button></div><div className="grid grid-cols-3 gap-2"><div><label className="text-[10px] text-slate-500 uppercase">Copies</label><div className="w-full bg-slate-900 text-slate-300 text-sm rounded p-2 border border-slate-800 font-mono">{getGroupCount(group.id, hyperCards)}</div></div><div><label className="text-[10px] text-slate-500 uppercase">Min</label><input type="number" value={group.minDesired || ''} onChange={(e) => updateHyperGroup(group.id, { minDesired: parseInt(e.target.value) || 0 })} className="w-full bg-slate-800 text-white text-sm rounded p-2 border border-slate-700" /></div><div><label className="text-[10px] text-slate-500 uppercase">Max</label><input type="number" value={group.maxDesired || ''} onChange={(e) => updateHyperGroup(group.id, { maxDesired: parseInt(e.target.value) || 0 })} className="w-full bg-slate-800 text-white text-sm rounded p-2 border border-slate-700" /></div></div></div>))}</div></div></div><div className="bg-slate-800 rounded-xl border border-slate-700 p-6"><HyperCardList deckSize={hyperDeckSize} groups={hyperGroups} cards={hyperCards} setCards={setHyperCards} /></div><div className="bg-slate-800 rounded-xl border border-slate-700 p-6"><HandConditionEditor groups={hyperGroups} conditions={hyperConditions} setConditions={setHyperConditions} /></div><div className="bg-slate-800 rounded-xl border border-slate-700 p-6"><div className="flex justify-between items-center"><div><h3 className="text-sm font-bold text-white uppercase tracking-wider">By Turn</h3><p className="text-[10px] text-slate-500">{hyperConditions.length > 0 ? 'Chance that any condition is met' : 'Chance that all group constraints are met'} with the cards seen by each turn (5 going first, 6 going second, +1 per draw).</p></div><div className="flex items-center gap-2"><label className="text-[10px] text-slate-500 uppercase">Turns</label><input type="number" min={1} max={20} value={hyperTurns || ''} onChange={(e) => setHyperTurns(Math.min(20, parseInt(e.target.value) || 0))} className="w-16 bg-slate-700 text-white text-sm rounded p-1.5 border border-slate-600" /></div></div>{hyperTurnResults.length > 0 && <TurnProbabilityChart data={hyperTurnResults} title="Chance by turn" />}</div><div className="bg-slate-800 rounded-xl border border-slate-700 p-6"><DrawEffectsPanel deckSize={hyperDeckSize} handSize={hyperHandSize} groups={hyperGroups} cards={hyperCards} conditions={hyperConditions} /></div></div>
+              <div className="lg:col-span-4 xl:col-span-3 space-y-6"><div className="bg-slate-800 rounded-xl border border-slate-700 p-6 sticky top-8 shadow-2xl"><div className="flex justify-between items-center mb-2"><h2 className="text-xl font-bold text-white">Result</h2><div className="flex items-center gap-2">{isHyperCalculating && <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-cyan-400"></div>}<select value={hyperPrecision} onChange={(e) => setHyperPrecision(parseInt(e.target.value))} className="bg-slate-700 text-white text-[10px] rounded px-1 py-0.5 border border-slate-600" title="Decimal places">{[2, 4, 6, 8].map(d => <option key={d} value={d}>{d} dp</option>)}</select></div></div><p className="text-xs text-slate-400 mb-6">Probability of satisfying <strong>ALL</strong> group constraints simultaneously.</p>{hyperResult !== null && (<div className="space-y-4"><div className="text-center p-6 bg-slate-900 rounded-xl border border-cyan-500/20"><div className="text-5xl font-black text-cyan-400 mb-2 break-all">{formatExactPercent(hyperResult)}</div><div className="text-[10px] text-slate-500 uppercase font-bold">Compound Chance • {formatOneIn(hyperResult)}</div><div className="text-[9px] text-slate-600 font-mono mt-1 break-all">{hyperResult.numerator.toString()} / {hyperResult.denominator.toString()}</div></div><div className="p-4 bg-slate-900/30 rounded-lg border border-slate-800 text-[10px] text-slate-400 space-y-2"><div className="font-bold text-slate-300 uppercase mb-1">Constraints:</div>{hyperGroups.map(group => (<div key={group.id} className="flex justify-between items-center"><span>{group.name}:</span><span className="text-cyan-500 font-mono">{group.minDesired}-{group.maxDesired}x</span></div>))}</div></div>)}{hyperConditionResult !== null && (<div className="mt-6 space-y-4"><div className="text-center p-6 bg-slate-900 rounded-xl border border-emerald-500/20"><div className="text-5xl font-black text-emerald-400 mb-2 break-all">{formatExactPercent(hyperConditionResult)}</div><div className="text-[10px] text-slate-500 uppercase font-bold">Any Condition Met • {formatOneIn(hyperConditionResult)}</div><div className="text-[9px] text-slate-600 font-mono mt-1 break-all">{hyperConditionResult.numerator.toString()} / {hyperConditionResult.denominator.toString()}</div></div><div className="p-4 bg-slate-900/30 rounded-lg border border-slate-800 text-[10px] text-slate-400 space-y-2"><div className="font-bold text-slate-300 uppercase mb-1">Lines:</div>{hyperConditions.map(condition => (<div key={condition.id} className="flex justify-between items-center gap-2"><span>{condition.name}:</span><span className="text-emerald-500 font-mono text-right">{condition.requirements.map(r => `${r.min}-${r.max}x ${hyperGroups.find(g => g.id === r.groupId)?.name ?? '?'}`).join(' + ') || '—'}</span></div>))}</div></div>)}</div></div>
             </div>
           </div>
         )}
         {view === AppView.SWISS_CALCULATOR && (
           <div className="max-w-[1600px] mx-auto flex flex-col lg:flex-row gap-8 w-full">
-            <div className="flex-1"><header className="mb-6"><h1 className="text-2xl md:text-3xl font-bold text-white mb-2">Swiss Calculator</h1></header><div className="bg-slate-800 rounded-xl border border-slate-700 p-6 mb-8"><div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6"><div><label className="block text-sm font-medium text-slate-400 mb-2">Total Players</label><input type="number" value={swissPlayers || ''} onChange={(e) => setSwissPlayers(parseInt(e.target.value) || 0)} className="w-full bg-slate-700 text-white rounded-lg px-4 py-3 border border-slate-600 outline-none" /></div><div><label className="block text-sm font-medium text-slate-400 mb-2">Rounds</label><input type="number" value={swissRounds || ''} onChange={(e) => setSwissRounds(parseInt(e.target.value) || 0)} className="w-full bg-slate-700 text-white rounded-lg px-4 py-3 border border-slate-600 outline-none" /></div></div><button onClick={handleSwissCalculate} className="w-full py-3 bg-emerald-600 hover:bg-emerald-500 text-white font-bold rounded-lg transition-all uppercase tracking-widest text-sm shadow-lg">Update Estimations</button></div>{swissResults.length > 0 && (<div className="bg-slate-800 rounded-xl border border-slate-700 overflow-hidden text-center"><div className="grid grid-cols-3 gap-4 bg-slate-900/50 p-4 border-b border-slate-700 font-semibold text-slate-300"><div>Record</div><div>W - L</div><div>Avg Projected</div></div><div className="divide-y divide-slate-700/50 max-h-[600px] overflow-y-auto custom-scrollbar">{swissResults.map((standing, index) => (<div key={index} className="grid grid-cols-3 gap-4 p-4 hover:bg-slate-700/30 transition-colors"><div className="font-mono">{standing.wins}-{standing.losses}</div><div>{standing.wins}W - {standing.losses}L</div><div className="font-bold text-emerald-400">{standing.count.toFixed(1)}</div></div>))}</div></div>)}</div>
-            <div className="w-full lg:w-96 space-y-6"><div className="bg-slate-800 rounded-xl border border-slate-700 p-6 sticky top-8 shadow-2xl"><h2 className="text-xl font-bold text-white mb-4">Top X Odds</h2><div className="space-y-4 mb-6"><div><label className="block text-[10px] font-medium text-slate-500 uppercase mb-1">Target Rank (X)</label><input type="number" value={targetRank || ''} onChange={(e) => setTargetRank(parseInt(e.target.value) || 1)} className="w-full bg-slate-700 text-white rounded px-3 py-2 border border-slate-600" /></div><div className="grid grid-cols-2 gap-3"><div><label className="block text-[10px] font-medium text-slate-500 uppercase mb-1">Wins</label><input type="number" value={currentWins || ''} onChange={(e) => setCurrentWins(parseInt(e.target.value) || 0)} className="w-full bg-slate-700 text-white rounded px-3 py-2 border border-slate-600" /></div><div><label className="block text-[10px] font-medium text-slate-500 uppercase mb-1">Losses</label><input type="number" value={currentLosses || ''} onChange={(e) => setCurrentLosses(parseInt(e.target.value) || 0)} className="w-full bg-slate-700 text-white rounded px-3 py-2 border border-slate-600" /></div></div></div><button onClick={handleSwissCalculate} className="w-full py-2.5 bg-emerald-600 text-white font-bold rounded transition-all text-xs uppercase tracking-widest shadow-md">Calculate Chance</button>{topXProbability !== null && <div className="mt-8 text-center p-4 bg-emerald-950/20 rounded border border-emerald-500/20 animate-in zoom-in-95 duration-300"><div className="text-[10px] text-slate-500 uppercase font-bold mb-1">Top {targetRank} Chance</div><div className="text-4xl font-black text-emerald-400">{topXProbability.toFixed(1)}%</div></div>}</div></div>
+            <div className="flex-1"><header className="mb-6"><h1 className="text-2xl md:text-3xl font-bold text-white mb-2">Swiss Calculator</h1></header><div className="bg-slate-800 rounded-xl border border-slate-700 p-6 mb-8"><div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6"><div><label className="block text-sm font-medium text-slate-400 mb-2">Total Players</label><input type="number" value={swissPlayers || ''} onChange={(e) => setSwissPlayers(parseInt(e.target.value) || 0)} className="w-full bg-slate-700 text-white rounded-lg px-4 py-3 border border-slate-600 outline-none" /></div><div><label className="block text-sm font-medium text-slate-400 mb-2">Rounds</label><input type="number" value={swissRounds || ''} onChange={(e) => setSwissRounds(parseInt(e.target.value) || 0)} className="w-full bg-slate-700 text-white rounded-lg px-4 py-3 border border-slate-600 outline-none" /></div></div><button onClick={handleSwissCalculate} className="w-full py-3 bg-emerald-600 hover:bg-emerald-500 text-white font-bold rounded-lg transition-all uppercase tracking-widest text-sm shadow-lg">Update Estimations</button></div>{swissResults.length > 0 && (<div className="bg-slate-800 rounded-xl border border-slate-700 overflow-hidden text-center"><div className="grid grid-cols-3 gap-4 bg-slate-900/50 p-4 border-b border-slate-700 font-semibold text-slate-300"><div>Record</div><div>W - L</div><div>Avg Projected</div></div><div className="divide-y divide-slate-700/50 max-h-[600px] overflow-y-auto custom-scrollbar">{swissResults.map((standing, index) => (<div key={index} className="grid grid-cols-3 gap-4 p-4 hover:bg-slate-700/30 transition-colors"><div className="font-mono">{standing.wins}-{standing.losses}</div><div>{standing.wins}W - {standing.losses}L</div><div className="font-bold text-emerald-400">{standing.count.toFixed(1)}</div></div>))}</div></div>)}<div className="mt-8"><SwissSimulator players={swissPlayers} rounds={swissRounds} topCut={targetRank} reports={tournamentReports} /></div></div>
+            <div className="w-full lg:w-96 space-y-6"><div className="bg-slate-800 rounded-xl border border-slate-700 p-6 shadow-2xl"><h2 className="text-xl font-bold text-white mb-4">Top X Odds</h2><div className="space-y-4 mb-6"><div><label className="block text-[10px] font-medium text-slate-500 uppercase mb-1">Target Rank (X)</label><input type="number" value={targetRank || ''} onChange={(e) => setTargetRank(parseInt(e.target.value) || 1)} className="w-full bg-slate-700 text-white rounded px-3 py-2 border border-slate-600" /></div><div className="grid grid-cols-2 gap-3"><div><label className="block text-[10px] font-medium text-slate-500 uppercase mb-1">Wins</label><input type="number" value={currentWins || ''} onChange={(e) => setCurrentWins(parseInt(e.target.value) || 0)} className="w-full bg-slate-700 text-white rounded px-3 py-2 border border-slate-600" /></div><div><label className="block text-[10px] font-medium text-slate-500 uppercase mb-1">Losses</label><input type="number" value={currentLosses || ''} onChange={(e) => setCurrentLosses(parseInt(e.target.value) || 0)} className="w-full bg-slate-700 text-white rounded px-3 py-2 border border-slate-600" /></div></div><WinRateInput reports={allTournamentReports} archetypes={archetypes} winRate={personalWinRate} setWinRate={setPersonalWinRate} /></div><button onClick={handleSwissCalculate} className="w-full py-2.5 bg-emerald-600 text-white font-bold rounded transition-all text-xs uppercase tracking-widest shadow-md">Calculate Chance</button>{topXProbability !== null && <div className="mt-8 text-center p-4 bg-emerald-950/20 rounded border border-emerald-500/20 animate-in zoom-in-95 duration-300"><div className="text-[10px] text-slate-500 uppercase font-bold mb-1">Top {targetRank} Chance</div><div className="text-4xl font-black text-emerald-400">{topXProbability.toFixed(1)}%</div><div className="text-[10px] text-slate-500 mt-1">at a {personalWinRate.toFixed(1)}% win rate</div></div>}{finalRecordOdds.length > 1 && <div className="mt-4 space-y-1"><div className="text-[10px] text-slate-500 uppercase font-bold">Final Record</div>{finalRecordOdds.map(outcome => (<div key={outcome.wins} className="flex items-center gap-2 text-xs"><span className="w-10 font-mono text-slate-300">{outcome.wins}-{outcome.losses}</span><div className="flex-1 h-1.5 bg-slate-900 rounded-full overflow-hidden"><div className="h-full bg-emerald-500" style={{ width: `${outcome.probability * 100}%` }}></div></div><span className="w-12 text-right text-slate-400">{formatPercent(outcome.probability * 100, 1)}</span></div>))}</div>}</div><IdAdvisor players={swissPlayers} rounds={swissRounds} topCut={targetRank} wins={currentWins} losses={currentLosses} winRate={personalWinRate} /></div>
           </div>
         )}
       </main>
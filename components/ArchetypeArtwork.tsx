@@ -0,0 +1,32 @@
+import React, { useState, useEffect } from 'react';
+import { Card } from '../types';
+import { fetchCardData } from '../services/ygoService';
+
+interface ArchetypeArtworkProps {
+  cardIds: number[];
+  /** Number of cards to show, in dictionary order. */
+  limit?: number;
+  className?: string;
+}
+
+export const ArchetypeArtwork: React.FC<ArchetypeArtworkProps> = ({ cardIds, limit = 1, className = 'w-6' }) => {
+  const [cards, setCards] = useState<Card[]>([]);
+  const shownIds = cardIds.slice(0, limit);
+  const idKey = shownIds.join(',');
+
+  useEffect(() => {
+    let cancelled = false;
+    if (shownIds.length === 0) setCards([]);
+    else fetchCardData(shownIds).then(fetched => { if (!cancelled) setCards(fetched); });
+    return () => { cancelled = true; };
+  }, [idKey]);
+
+  if (cards.length === 0) return null;
+  return (
+    <>
+      {cards.map(card => (
+        <img key={card.id} src={card.card_images[0].image_url_small} alt={card.name} title={card.name} className={`${className} aspect-[2/3] object-cover rounded shrink-0`} />
+      ))}
+    </>
+  );
+};
@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { Archetype, TournamentReport } from '../types';
+import { createArchetype, findArchetype, getUnlistedMatchups, mergeArchetypes, normalizeMatchup, renameArchetype } from '../services/archetypes';
+import { searchCards } from '../services/ygoService';
+import { ArchetypeArtwork } from './ArchetypeArtwork';
+
+interface ArchetypeDictionaryProps {
+  archetypes: Archetype[];
+  setArchetypes: React.Dispatch<React.SetStateAction<Archetype[]>>;
+  /** Logged rounds, to offer matchup names not yet in the dictionary. */
+  reports: TournamentReport[];
+}
+
+export const ArchetypeDictionary: React.FC<ArchetypeDictionaryProps> = ({ archetypes, setArchetypes, reports }) => {
+  const [newName, setNewName] = useState('');
+  const [nameDrafts, setNameDrafts] = useState<Record<string, string>>({});
+  const [aliasDrafts, setAliasDrafts] = useState<Record<string, string>>({});
+  const [cardDrafts, setCardDrafts] = useState<Record<string, string>>({});
+  const [cardErrors, setCardErrors] = useState<Record<string, string>>({});
+
+  const unlisted = getUnlistedMatchups(reports, archetypes);
+  const sorted = [...archetypes].sort((a, b) => a.name.localeCompare(b.name));
+
+  const updateArchetype = (id: string, updates: Partial<Archetype>) => {
+    setArchetypes(prev => prev.map(a => a.id === id ? { ...a, ...updates } : a));
+  };
+
+  // A name or alias may only belong to one archetype
+  const isTaken = (name: string, exceptId?: string) => {
+    const owner = findArchetype(name, archetypes);
+    return !!owner && owner.id !== exceptId;
+  };
+
+  const addArchetype = (name: string) => {
+    if (!normalizeMatchup(name) || isTaken(name)) return;
+    setArchetypes(prev => [...prev, createArchetype(name)]);
+  };
+
+  // Applied on blur or Enter rather than per keystroke, so the old name becomes a single alias
+  const commitRename = (archetype: Archetype) => {
+    const draft = nameDrafts[archetype.id];
+    if (draft === undefined) return;
+    setNameDrafts(prev => { const { [archetype.id]: _, ...rest } = prev; return rest; });
+    if (!normalizeMatchup(draft) || isTaken(draft, archetype.id)) return;
+    setArchetypes(prev => renameArchetype(prev, archetype.id, draft));
+  };
+
+  const addAlias = (archetype: Archetype, alias: string) => {
+    const key = normalizeMatchup(alias);
+    if (!key || isTaken(alias) || key === normalizeMatchup(archetype.name)) return;
+    updateArchetype(archetype.id, { aliases: [...archetype.aliases, alias.trim()] });
+    setAliasDrafts({ ...aliasDrafts, [archetype.id]: '' });
+  };
+
+  // Uses the exact name match from the card database, otherwise the first result
+  const addCard = async (archetype: Archetype, name: string) => {
+    const results = await searchCards(name.trim());
+    const card = results.find(c => c.name.toLowerCase() === name.trim().toLowerCase()) || results[0];
+    if (!card) {
+      setCardErrors({ ...cardErrors, [archetype.id]: `No card found for "${name}".` });
+      return;
+    }
+    setCardErrors({ ...cardErrors, [archetype.id]: '' });
+    setCardDrafts({ ...cardDrafts, [archetype.id]: '' });
+    if (!archetype.cardIds.includes(card.id)) updateArchetype(archetype.id, { cardIds: [...archetype.cardIds, card.id] });
+  };
+
+  const deleteArchetype = (archetype: Archetype) => {
+    if (!confirm(`Delete "${archetype.name}"? Logged rounds keep their matchup names.`)) return;
+    setArchetypes(prev => prev.filter(a => a.id !== archetype.id));
+  };
+
+  return (
+    <div className="bg-slate-800 rounded-xl border border-slate-700 p-6 space-y-4">
+      <div>
+        <h2 className="text-lg font-bold text-white">Archetype Dictionary</h2>
+        <p className="text-[10px] text-slate-500">Logged matchups that match an archetype's name or alias (ignoring case, spacing and punctuation) are counted as that archetype. The round form suggests these names.</p>
+      </div>
+
+      <div className="flex gap-2">
+        <input type="text" value={newName} onChange={(e) => setNewName(e.target.value)} onKeyDown={(e) => { if (e.key === 'Enter') { addArchetype(newName); setNewName(''); } }} placeholder="New archetype (e.g. Snake-Eye Fire King)" className="flex-1 bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-white focus:border-cyan-500 outline-none text-sm" />
+        <button onClick={() => { addArchetype(newName); setNewName(''); }} disabled={!normalizeMatchup(newName) || isTaken(newName)} className="px-4 bg-cyan-600 hover:bg-cyan-500 disabled:opacity-40 text-white text-[10px] font-bold rounded-lg uppercase">Add</button>
+      </div>
+
+      {unlisted.length > 0 && (
+        <div className="p-3 bg-slate-900/50 rounded-lg border border-amber-500/20 space-y-2">
+          <h3 className="text-[10px] font-bold text-amber-400 uppercase tracking-widest">Logged but not listed</h3>
+          {unlisted.map(entry => (
+            <div key={entry.name} className="flex flex-wrap items-center gap-2 text-xs">
+              <span className="flex-1 text-slate-300">{entry.name} <span className="text-slate-500">({entry.matches})</span></span>
+              <button onClick={() => addArchetype(entry.name)} className="text-[10px] font-bold text-cyan-500 hover:text-cyan-400 uppercase">+ Archetype</button>
+              {archetypes.length > 0 && (
+                <select value="" onChange={(e) => { const target = archetypes.find(a => a.id === e.target.value); if (target) addAlias(target, entry.name); }} className="bg-slate-800 text-white text-[10px] rounded p-1 border border-slate-700">
+                  <option value="">Alias of…</option>
+                  {sorted.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                </select>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {sorted.map(archetype => (
+          <div key={archetype.id} className="p-3 bg-slate-900/50 rounded-lg border border-slate-700 space-y-2">
+            <div className="flex items-center gap-2">
+              <ArchetypeArtwork cardIds={archetype.cardIds} limit={3} className="w-8" />
+              <input type="text" value={nameDrafts[archetype.id] ?? archetype.name} onChange={(e) => setNameDrafts({ ...nameDrafts, [archetype.id]: e.target.value })} onBlur={() => commitRename(archetype)} onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }} className="flex-1 min-w-0 bg-transparent border-b border-slate-700 outline-none text-white text-sm font-medium" />
+              {archetypes.length > 1 && (
+                <select value="" onChange={(e) => e.target.value && setArchetypes(prev => mergeArchetypes(prev, archetype.id, e.target.value))} title="Fold this archetype into another" className="bg-slate-800 text-white text-[10px] rounded p-1 border border-slate-700">
+                  <option value="">Merge into…</option>
+                  {sorted.filter(a => a.id !== archetype.id).map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                </select>
+              )}
+              <button onClick={() => deleteArchetype(archetype)} className="text-[10px] font-bold text-slate-500 hover:text-red-400 uppercase">Delete</button>
+            </div>
+            <div className="flex flex-wrap items-center gap-1">
+              {archetype.aliases.map(alias => (
+                <span key={alias} className="px-2 py-0.5 bg-slate-800 border border-slate-700 rounded text-[10px] text-slate-300">
+                  {alias}
+                  <button onClick={() => updateArchetype(archetype.id, { aliases: archetype.aliases.filter(a => a !== alias) })} className="ml-1 text-slate-500 hover:text-red-400">✕</button>
+                </span>
+              ))}
+              <input type="text" value={aliasDrafts[archetype.id] || ''} onChange={(e) => setAliasDrafts({ ...aliasDrafts, [archetype.id]: e.target.value })} onKeyDown={(e) => { if (e.key === 'Enter') addAlias(archetype, aliasDrafts[archetype.id] || ''); }} placeholder="+ Alias" className="w-24 bg-transparent border-b border-slate-700 outline-none text-white text-[10px]" />
+            </div>
+            <div className="flex flex-wrap items-center gap-2 text-[10px]">
+              <span className="text-slate-500 uppercase font-bold">Cards</span>
+              {archetype.cardIds.map(id => (
+                <button key={id} onClick={() => updateArchetype(archetype.id, { cardIds: archetype.cardIds.filter(c => c !== id) })} title="Remove" className="hover:opacity-60">
+                  <ArchetypeArtwork cardIds={[id]} className="w-6" />
+                </button>
+              ))}
+              <input type="text" value={cardDrafts[archetype.id] || ''} onChange={(e) => setCardDrafts({ ...cardDrafts, [archetype.id]: e.target.value })} onKeyDown={(e) => { if (e.key === 'Enter') addCard(archetype, cardDrafts[archetype.id] || ''); }} placeholder="+ Card name" className="w-32 bg-transparent border-b border-slate-700 outline-none text-white" />
+              {cardErrors[archetype.id] && <span className="text-red-400">{cardErrors[archetype.id]}</span>}
+            </div>
+          </div>
+        ))}
+        {archetypes.length === 0 && <p className="text-slate-600 italic text-[10px]">No archetypes yet.</p>}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,75 @@
+import React, { useRef } from 'react';
+import { BanlistSelection, BanlistSnapshot } from '../types';
+import { BANLIST_FORMATS, Banlist, getSnapshotsForFormat, parseBanlistSnapshot } from '../services/banlists';
+
+interface BanlistSelectorProps {
+  selection: BanlistSelection;
+  setSelection: React.Dispatch<React.SetStateAction<BanlistSelection>>;
+  snapshots: BanlistSnapshot[];
+  setSnapshots: React.Dispatch<React.SetStateAction<BanlistSnapshot[]>>;
+  banlist: Banlist;
+}
+
+export const BanlistSelector: React.FC<BanlistSelectorProps> = ({ selection, setSelection, snapshots, setSnapshots, banlist }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const forFormat = getSnapshotsForFormat(snapshots, selection.format);
+  const hasLiveList = !!BANLIST_FORMATS.find(f => f.id === selection.format)?.field;
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      try {
+        const snapshot = parseBanlistSnapshot(event.target?.result as string);
+        setSnapshots(prev => [...prev, snapshot]);
+        setSelection({ format: snapshot.format, snapshotId: snapshot.id });
+      } catch (err) {
+        alert(`Could not load banlist: ${(err as Error).message}`);
+      }
+    };
+    reader.readAsText(file);
+    e.target.value = '';
+  };
+
+  const deleteSnapshot = (id: string) => {
+    setSnapshots(prev => prev.filter(s => s.id !== id));
+    setSelection(prev => prev.snapshotId === id ? { ...prev, snapshotId: null } : prev);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-between items-center">
+        <label className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">Banlist</label>
+        <button onClick={() => fileInputRef.current?.click()} className="text-[10px] font-bold text-cyan-400 hover:text-cyan-300 uppercase">Load JSON</button>
+        <input type="file" ref={fileInputRef} onChange={handleFileChange} accept=".json" className="hidden" />
+      </div>
+      <div className="flex gap-1">
+        {BANLIST_FORMATS.map(f => (
+          <button
+            key={f.id}
+            onClick={() => setSelection({ format: f.id, snapshotId: null })}
+            className={`flex-1 py-1 rounded text-[10px] font-bold uppercase ${selection.format === f.id ? 'bg-cyan-600 text-white' : 'bg-slate-800 text-slate-400 hover:text-white'}`}
+          >
+            {f.label}
+          </button>
+        ))}
+      </div>
+      {forFormat.length > 0 && (
+        <div className="flex gap-1">
+          <select
+            value={banlist.snapshot?.id ?? ''}
+            onChange={e => setSelection(prev => ({ ...prev, snapshotId: e.target.value || null }))}
+            className="flex-1 min-w-0 bg-slate-800 text-white text-[10px] rounded p-1 border border-slate-700"
+          >
+            {hasLiveList && <option value="">Current list</option>}
+            {forFormat.map(s => <option key={s.id} value={s.id}>{s.date} • {s.name}</option>)}
+          </select>
+          {banlist.snapshot && <button onClick={() => deleteSnapshot(banlist.snapshot!.id)} className="px-1.5 text-slate-500 hover:text-red-400 text-[10px] font-bold uppercase">Delete</button>}
+        </div>
+      )}
+      {!banlist.available && <p className="text-[10px] text-amber-400">No {banlist.label} list loaded. Every card is treated as unlimited.</p>}
+    </div>
+  );
+};
@@ -1,27 +1,59 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { Card } from '../types';
-import { searchCards, fetchCardData, parseYDK } from '../services/ygoService';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Card, TournamentMetadata } from '../types';
+import { searchCards, fetchCardData, isExtraDeckCard } from '../services/ygoService';
+import { DECK_FILE_ACCEPT, DeckCodec, DeckImportResult, csvCodec, decodeDeck, textCodec, ydkCodec, ydkeCodec } from '../services/deckCodecs';
+import { renderDeckImage } from '../services/deckImage';
+import { Banlist, getBanStatus } from '../services/banlists';
+import { DeckIssue, describeAdditionIssue, getAdditionIssue, validateDeck } from '../services/deckValidation';
+import { DeckDiagnostics } from './DeckDiagnostics';
+import { DecklistForm } from './DecklistForm';
+import { DeckIssueList } from './DeckIssueList';
 
 type SectionType = 'main' | 'extra' | 'side' | 'considerations';
 
+type ExportFormat = 'ydk' | 'ydke' | 'text' | 'csv' | 'image';
+
+const EXPORT_CODECS: Record<Exclude<ExportFormat, 'image'>, DeckCodec> = {
+  ydk: ydkCodec,
+  ydke: ydkeCodec,
+  text: textCodec,
+  csv: csvCodec
+};
+
 interface DragInfo {
   card: Card;
   sourceSection?: SectionType | 'search';
   sourceIndex?: number;
 }
 
-export const DeckBuilder: React.FC = () => {
+interface DeckBuilderProps {
+  considerations: Card[];
+  setConsiderations: React.Dispatch<React.SetStateAction<Card[]>>;
+  /** The active tournament's details, used to fill in the decklist form. */
+  metadata: TournamentMetadata;
+  setMetadata: React.Dispatch<React.SetStateAction<TournamentMetadata>>;
+  banlist: Banlist;
+}
+
+export const DeckBuilder: React.FC<DeckBuilderProps> = ({ considerations, setConsiderations, metadata, setMetadata, banlist }) => {
   const [searchTerm, setSearchTerm] = useState('');
   const [searchResults, setSearchResults] = useState<Card[]>([]);
   const [isSearching, setIsSearching] = useState(false);
   const [isImporting, setIsImporting] = useState(false);
+  const [importResult, setImportResult] = useState<DeckImportResult | null>(null);
+  const [deckName, setDeckName] = useState('');
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('ydk');
+  const [isExporting, setIsExporting] = useState(false);
+  const [showDecklistForm, setShowDecklistForm] = useState(false);
   
   const [mainDeck, setMainDeck] = useState<Card[]>([]);
   const [extraDeck, setExtraDeck] = useState<Card[]>([]);
   const [sideDeck, setSideDeck] = useState<Card[]>([]);
-  const [considerations, setConsiderations] = useState<Card[]>([]);
 
   const [draggedItem, setDraggedItem] = useState<DragInfo | null>(null);
+  const [rejection, setRejection] = useState<DeckIssue | null>(null);
+
+  const issues = useMemo(() => validateDeck({ main: mainDeck, extra: extraDeck, side: sideDeck }, banlist), [mainDeck, extraDeck, sideDeck, banlist]);
 
   const importInputRef = useRef<HTMLInputElement>(null);
 
@@ -41,21 +73,17 @@ export const DeckBuilder: React.FC = () => {
     return () => clearTimeout(delayDebounceFn);
   }, [searchTerm]);
 
-  const isExtraDeckCard = (card: Card) => {
-    const types = ['Fusion', 'Synchro', 'XYZ', 'Link', 'Token'];
-    return types.some(t => card.type.toUpperCase().includes(t.toUpperCase()));
-  };
-
-  const checkDeckLimit = (card: Card) => {
-    const countInDeck = [...mainDeck, ...extraDeck, ...sideDeck].filter(c => c.name === card.name).length;
-    
-    // Respect Banlist status
-    const banStatus = card.banlist_info?.ban_tcg;
-    if (banStatus === 'Forbidden') return false;
-    if (banStatus === 'Limited' && countInDeck >= 1) return false;
-    if (banStatus === 'Semi-Limited' && countInDeck >= 2) return false;
-    
-    return countInDeck < 3;
+  // Refused adds say why instead of doing nothing
+  const canAdd = (card: Card, section: 'main' | 'extra' | 'side', from?: SectionType | 'search') => {
+    const issue = getAdditionIssue(
+      { main: mainDeck, extra: extraDeck, side: sideDeck },
+      card,
+      section,
+      banlist,
+      from === 'main' || from === 'extra' || from === 'side' ? from : undefined
+    );
+    setRejection(issue);
+    return !issue;
   };
 
   const addCard = (card: Card, target: 'auto' | SectionType = 'auto') => {
@@ -64,18 +92,9 @@ export const DeckBuilder: React.FC = () => {
       return;
     }
 
-    if (!checkDeckLimit(card)) return;
-
-    if (target === 'side') {
-      if (sideDeck.length < 15) setSideDeck([...sideDeck, card]);
-      return;
-    }
-
-    if (isExtraDeckCard(card)) {
-      if (extraDeck.length < 15) setExtraDeck([...extraDeck, card]);
-    } else {
-      if (mainDeck.length < 60) setMainDeck([...mainDeck, card]);
-    }
+    const section = target === 'side' ? 'side' : isExtraDeckCard(card) ? 'extra' : 'main';
+    if (!canAdd(card, section)) return;
+    setSectionData(section, [...getSectionData(section), card]);
   };
 
   const removeCard = (index: number, section: SectionType) => {
@@ -141,13 +160,7 @@ export const DeckBuilder: React.FC = () => {
       return;
     }
 
-    if (targetSection !== 'considerations' && !checkDeckLimit(card)) return;
-
-    if (targetSection === 'extra' && !isExtraDeckCard(card)) return;
-    if (targetSection === 'main' && isExtraDeckCard(card)) return;
-    if (targetSection === 'extra' && extraDeck.length >= 15) return;
-    if (targetSection === 'main' && mainDeck.length >= 60) return;
-    if (targetSection === 'side' && sideDeck.length >= 15) return;
+    if (targetSection !== 'considerations' && !canAdd(card, targetSection, sourceSection)) return;
 
     if (sourceSection && sourceSection !== 'search' && sourceIndex !== undefined) {
       removeCard(sourceIndex, sourceSection);
@@ -170,13 +183,7 @@ export const DeckBuilder: React.FC = () => {
       newData.splice(targetIndex, 0, card);
       setSectionData(targetSection, newData);
     } else {
-      if (targetSection !== 'considerations' && !checkDeckLimit(card)) return;
-      
-      if (targetSection === 'extra' && !isExtraDeckCard(card)) return;
-      if (targetSection === 'main' && isExtraDeckCard(card)) return;
-      if (targetSection === 'extra' && extraDeck.length >= 15) return;
-      if (targetSection === 'main' && mainDeck.length >= 60) return;
-      if (targetSection === 'side' && sideDeck.length >= 15) return;
+      if (targetSection !== 'considerations' && !canAdd(card, targetSection, sourceSection)) return;
 
       if (sourceSection && sourceSection !== 'search' && sourceIndex !== undefined) {
         removeCard(sourceIndex, sourceSection);
@@ -189,59 +196,95 @@ export const DeckBuilder: React.FC = () => {
     setDraggedItem(null);
   };
 
+  // Any supported format; lines that can't be used are listed instead of dropped
+  const importDeck = async (content: string) => {
+    setIsImporting(true);
+    try {
+      const result = await decodeDeck(content);
+      setImportResult(result.diagnostics.length > 0 ? result : null);
+      const { main: mainIds, extra: extraIds, side: sideIds } = result.deck;
+      if (mainIds.length + extraIds.length + sideIds.length === 0) return;
+
+      const [main, extra, side] = await Promise.all([
+        fetchCardData(mainIds),
+        fetchCardData(extraIds),
+        fetchCardData(sideIds)
+      ]);
+
+      setMainDeck(main);
+      setExtraDeck(extra);
+      setSideDeck(side);
+      setConsiderations([]); 
+    } catch (err) {
+      console.error("Import failed", err);
+      alert("Failed to import deck.");
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
   const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
 
-    setIsImporting(true);
     const reader = new FileReader();
-    reader.onload = async (event) => {
-      try {
-        const content = event.target?.result as string;
-        const deckData = parseYDK(content);
-        
-        const [main, extra, side] = await Promise.all([
-          fetchCardData(deckData.main),
-          fetchCardData(deckData.extra),
-          fetchCardData(deckData.side)
-        ]);
-
-        setMainDeck(main);
-        setExtraDeck(extra);
-        setSideDeck(side);
-        setConsiderations([]); 
-      } catch (err) {
-        console.error("Import failed", err);
-        alert("Failed to parse .ydk file.");
-      } finally {
-        setIsImporting(false);
-        if (importInputRef.current) importInputRef.current.value = '';
-      }
+    reader.onload = (event) => {
+      importDeck(event.target?.result as string);
+      if (importInputRef.current) importInputRef.current.value = '';
     };
     reader.readAsText(file);
   };
 
-  const exportYDK = () => {
-    const content = [
-      '#created by DuelMath',
-      '#main',
-      ...mainDeck.map(c => c.id),
-      '#extra',
-      ...extraDeck.map(c => c.id),
-      '!side',
-      ...sideDeck.map(c => c.id)
-    ].join('\n');
-
-    const blob = new Blob([content], { type: 'text/plain' });
+  const handlePaste = async () => {
+    try {
+      const text = await navigator.clipboard.readText();
+      if (text.trim()) importDeck(text);
+    } catch (err) {
+      console.error("Clipboard read failed", err);
+      alert("Clipboard access was denied.");
+    }
+  };
+
+  const exportFileName = (extension: string) =>
+    `${deckName.trim().replace(/[^a-z0-9-_ ]/gi, '').replace(/\s+/g, '_') || 'deck'}.${extension}`;
+
+  const downloadBlob = (blob: Blob, fileName: string) => {
     const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
     link.href = url;
-    link.download = 'deck.ydk';
+    link.download = fileName;
     link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const exportDeck = async () => {
+    if (issues.length > 0) return;
+    const deck = { main: mainDeck, extra: extraDeck, side: sideDeck };
+    if (exportFormat === 'image') {
+      setIsExporting(true);
+      try {
+        downloadBlob(await renderDeckImage(deck, deckName.trim() || 'Decklist'), exportFileName('png'));
+      } catch (err) {
+        console.error("Image export failed", err);
+        alert("Failed to render the deck image.");
+      } finally {
+        setIsExporting(false);
+      }
+      return;
+    }
+    const codec = EXPORT_CODECS[exportFormat];
+    downloadBlob(new Blob([codec.encode(deck)], { type: codec.mimeType }), exportFileName(codec.extension));
+  };
+
+  const copyDeck = () => {
+    if (exportFormat === 'image' || issues.length > 0) return;
+    navigator.clipboard.writeText(EXPORT_CODECS[exportFormat].encode({ main: mainDeck, extra: extraDeck, side: sideDeck })).then(() => {
+      alert(`${EXPORT_CODECS[exportFormat].label} copied to clipboard!`);
+    });
   };
 
   const renderBanStatus = (card: Card) => {
-    const status = card.banlist_info?.ban_tcg;
+    const status = getBanStatus(card, banlist);
     if (!status) return null;
 
     let bgColor = "bg-slate-700";
@@ -361,6 +404,10 @@ export const DeckBuilder: React.FC = () => {
               <div className="text-xl font-black text-white">{sideDeck.length}</div>
               <div className="text-[10px] text-slate-400 uppercase font-bold">Side</div>
             </div>
+            <div className="text-center" title={banlist.available ? undefined : 'No banlist loaded for this format'}>
+              <div className={`text-xl font-black ${banlist.available ? 'text-cyan-400' : 'text-slate-500'}`}>{banlist.label}</div>
+              <div className="text-[10px] text-slate-400 uppercase font-bold">Banlist</div>
+            </div>
           </div>
           <div className="flex gap-2 w-full sm:w-auto">
             <button 
@@ -374,18 +421,88 @@ export const DeckBuilder: React.FC = () => {
               disabled={isImporting}
               className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white text-[10px] font-bold rounded-lg uppercase tracking-widest transition-all disabled:opacity-50"
             >
-              {isImporting ? 'Loading...' : 'Import .YDK'}
+              {isImporting ? 'Loading...' : 'Import File'}
             </button>
-            <input type="file" ref={importInputRef} onChange={handleImport} accept=".ydk" className="hidden" />
             <button 
-              onClick={exportYDK}
-              className="px-5 py-2 bg-cyan-600 hover:bg-cyan-500 text-white text-[10px] font-bold rounded-lg uppercase tracking-widest shadow-lg transition-all"
+              onClick={handlePaste}
+              disabled={isImporting}
+              title="Import a ydke:// link, YDK, CSV or text decklist from the clipboard. Master Duel deck codes can't be read: only Konami's servers can resolve them."
+              className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white text-[10px] font-bold rounded-lg uppercase tracking-widest transition-all disabled:opacity-50"
+            >
+              Paste
+            </button>
+            <input type="file" ref={importInputRef} onChange={handleImport} accept={DECK_FILE_ACCEPT} className="hidden" />
+            <input 
+              type="text"
+              value={deckName}
+              onChange={e => setDeckName(e.target.value)}
+              placeholder="Deck name"
+              className="w-28 bg-slate-900 border border-slate-700 rounded-lg px-2 py-2 text-white text-[10px] focus:border-cyan-500 outline-none"
+            />
+            <select 
+              value={exportFormat}
+              onChange={e => setExportFormat(e.target.value as ExportFormat)}
+              className="bg-slate-900 border border-slate-700 rounded-lg px-2 text-white text-[10px] font-bold uppercase outline-none"
+            >
+              <option value="ydk">.YDK</option>
+              <option value="ydke">ydke://</option>
+              <option value="text">Text</option>
+              <option value="csv">CSV</option>
+              <option value="image">Image</option>
+            </select>
+            {exportFormat !== 'image' && (
+              <button 
+                onClick={copyDeck}
+                disabled={issues.length > 0}
+                title={issues.length > 0 ? 'Fix the deck issues below to export' : undefined}
+                className="px-4 py-2 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-white text-[10px] font-bold rounded-lg uppercase tracking-widest transition-all"
+              >
+                Copy
+              </button>
+            )}
+            <button 
+              onClick={exportDeck}
+              disabled={isExporting || issues.length > 0}
+              title={issues.length > 0 ? 'Fix the deck issues below to export' : undefined}
+              className="px-5 py-2 bg-cyan-600 hover:bg-cyan-500 disabled:opacity-50 text-white text-[10px] font-bold rounded-lg uppercase tracking-widest shadow-lg transition-all"
             >
-              Export .YDK
+              {isExporting ? 'Rendering...' : 'Export'}
+            </button>
+            <button 
+              onClick={() => setShowDecklistForm(prev => !prev)}
+              title="Printable tournament decklist"
+              className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white text-[10px] font-bold rounded-lg uppercase tracking-widest transition-all"
+            >
+              Decklist
             </button>
           </div>
         </header>
 
+        {importResult && <DeckDiagnostics result={importResult} onDismiss={() => setImportResult(null)} />}
+
+        {rejection && (
+          <div className="p-3 rounded-lg border bg-amber-950/20 border-amber-500/30 text-[10px] flex justify-between items-center gap-4">
+            <span className="text-amber-400">Not added: {describeAdditionIssue(rejection)}</span>
+            <button onClick={() => setRejection(null)} className="text-slate-500 hover:text-white font-bold uppercase">Dismiss</button>
+          </div>
+        )}
+
+        {mainDeck.length + extraDeck.length + sideDeck.length > 0 && (
+          <DeckIssueList issues={issues} context={banlist.label} note="Export is disabled until these are fixed." />
+        )}
+
+        {showDecklistForm && (
+          <DecklistForm
+            main={mainDeck}
+            extra={extraDeck}
+            side={sideDeck}
+            issues={issues}
+            metadata={metadata}
+            setMetadata={setMetadata}
+            onClose={() => setShowDecklistForm(false)}
+          />
+        )}
+
         <section>
           <div className="flex items-center justify-between mb-3 ml-1 border-b border-amber-500/20 pb-1">
             <div className="flex items-center gap-2">
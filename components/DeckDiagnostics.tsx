@@ -0,0 +1,29 @@
+import React from 'react';
+import { DeckImportResult } from '../services/deckCodecs';
+
+interface DeckDiagnosticsProps {
+  result: DeckImportResult;
+  onDismiss: () => void;
+}
+
+export const DeckDiagnostics: React.FC<DeckDiagnosticsProps> = ({ result, onDismiss }) => {
+  const { deck, diagnostics, format } = result;
+  const errors = diagnostics.filter(d => d.severity === 'error').length;
+  return (
+    <div className={`p-3 rounded-lg border text-[10px] space-y-1 ${errors > 0 ? 'bg-red-950/20 border-red-500/30' : 'bg-slate-900/50 border-slate-700'}`}>
+      <div className="flex justify-between items-center">
+        <span className="font-bold uppercase text-slate-300">
+          {format}: {deck.main.length} / {deck.extra.length} / {deck.side.length} cards
+          {errors > 0 && <span className="text-red-400"> • {errors} not imported</span>}
+        </span>
+        <button onClick={onDismiss} className="text-slate-500 hover:text-white font-bold uppercase">Dismiss</button>
+      </div>
+      {diagnostics.map((d, i) => (
+        <div key={i} className={d.severity === 'error' ? 'text-red-400' : 'text-amber-400'}>
+          {d.line !== undefined && <span className="font-mono text-slate-500 mr-2">L{d.line}</span>}
+          {d.message}
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,27 @@
+import React from 'react';
+import { DeckIssue, describeDeckIssue } from '../services/deckValidation';
+
+interface DeckIssueListProps {
+  issues: DeckIssue[];
+  /** What the issues block, e.g. export. */
+  note?: string;
+  /** Named in the heading, e.g. the banlist checked against. */
+  context?: string;
+}
+
+export const DeckIssueList: React.FC<DeckIssueListProps> = ({ issues, note, context }) => {
+  if (issues.length === 0) return null;
+  return (
+    <div className="p-3 rounded-lg border bg-red-950/20 border-red-500/30 text-[10px] space-y-1">
+      <div className="flex justify-between items-center gap-4">
+        <span className="font-bold uppercase text-red-400">
+          Not legal{context ? ` under ${context}` : ''} • {issues.length} issue{issues.length > 1 ? 's' : ''}
+        </span>
+        {note && <span className="text-slate-500">{note}</span>}
+      </div>
+      <ul className="space-y-0.5 text-red-300">
+        {issues.map((issue, i) => <li key={i}>{describeDeckIssue(issue)}</li>)}
+      </ul>
+    </div>
+  );
+};
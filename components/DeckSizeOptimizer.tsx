@@ -0,0 +1,102 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Card, CardRoleMap } from '../types';
+import { HyperCard, formatProbability } from '../services/mathUtils';
+import { buildRoleCards } from '../services/roleAnalysis';
+import { DeckSizeComparison, SizeObjective, SIZE_OBJECTIVES } from '../services/optimizer';
+import { Banlist, getCopyLimit } from '../services/banlists';
+import { runMathTask, cancelMathTask, handleMathTaskError } from '../services/mathClient';
+
+interface DeckSizeOptimizerProps {
+  deck: Card[];
+  /** Side Deck copies count toward each card's banlist limit too. */
+  sideDeck: Card[];
+  considerations: Card[];
+  handSize: number;
+  roles: CardRoleMap;
+  banlist: Banlist;
+}
+
+const MAX_EXTRA_CARDS = 5;
+
+export const DeckSizeOptimizer: React.FC<DeckSizeOptimizerProps> = ({ deck, sideDeck, considerations, handSize, roles, banlist }) => {
+  const [objective, setObjective] = useState<SizeObjective>('starterHit');
+  const [comparison, setComparison] = useState<DeckSizeComparison | null>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+
+  // Each consideration can be added up to its banlist limit, minus the copies already in the Main and Side Deck
+  const pool = useMemo((): HyperCard[] => buildRoleCards(considerations, roles)
+    .map(entry => {
+      const card = considerations.find(c => c.name === entry.name)!;
+      const inDeck = [...deck, ...sideDeck].filter(c => c.name === entry.name).length;
+      return { ...entry, copies: Math.min(entry.copies, getCopyLimit(card, banlist) - inDeck) };
+    })
+    .filter(entry => entry.copies > 0), [deck, sideDeck, considerations, roles, banlist]);
+
+  useEffect(() => {
+    if (deck.length === 0 || handSize <= 0 || handSize > deck.length) {
+      cancelMathTask('deckSizes');
+      setProgress(null);
+      setComparison(null);
+      return;
+    }
+    setProgress(0);
+    runMathTask('deckSizes', { kind: 'deckSizes', handSize, cards: buildRoleCards(deck, roles), pool, maxExtra: MAX_EXTRA_CARDS, objective }, setProgress)
+      .then(result => {
+        setProgress(null);
+        setComparison(result);
+      })
+      .catch(handleMathTaskError);
+  }, [deck, handSize, roles, pool, objective]);
+
+  useEffect(() => () => cancelMathTask('deckSizes'), []);
+
+  const recommended = comparison ? comparison.options[comparison.recommended] : null;
+
+  return (
+    <div className="bg-slate-800/50 rounded-xl border border-slate-700 p-5 space-y-4">
+      <div className="flex justify-between items-start gap-4">
+        <div>
+          <h2 className="text-lg font-bold text-white">Deck Size</h2>
+          <p className="text-[10px] text-slate-500">Hand role odds for the current deck and up to {MAX_EXTRA_CARDS} more cards, either untagged filler or the best picks from the Deck Builder considerations ({pool.length} available).</p>
+        </div>
+        <select value={objective} onChange={(e) => setObjective(e.target.value as SizeObjective)} className="bg-slate-700 text-white text-xs rounded p-1.5 border border-slate-600 shrink-0">
+          {SIZE_OBJECTIVES.map(o => <option key={o.id} value={o.id}>{o.label}</option>)}
+        </select>
+      </div>
+
+      {progress !== null && (
+        <div className="w-full h-1.5 bg-slate-900 rounded-full overflow-hidden">
+          <div className="h-full bg-cyan-500 transition-all" style={{ width: `${Math.round(progress * 100)}%` }}></div>
+        </div>
+      )}
+
+      {comparison && recommended && (
+        <div className="space-y-3">
+          <div className="p-3 bg-emerald-950/20 border border-emerald-500/30 rounded-lg text-xs text-slate-300">
+            Recommended: <b className="text-emerald-400">{recommended.deckSize} cards</b>
+            {recommended.filler && ' with untagged filler'}
+            {recommended.additions.length > 0 && <> adding {recommended.additions.map(a => `${a.copies}x ${a.name}`).join(', ')}</>}
+          </div>
+          <div className="grid grid-cols-6 gap-1 text-center text-[10px] font-bold text-slate-500 uppercase">
+            <div>Size</div>
+            <div className="col-span-2 text-left">Build</div>
+            <div>Starter</div>
+            <div>Brick</div>
+            <div>HT</div>
+          </div>
+          {comparison.options.map((option, i) => (
+            <div key={i} className={`grid grid-cols-6 gap-1 text-center py-1 border-b border-slate-700/30 text-xs ${i === comparison.recommended ? 'bg-emerald-500/10' : ''}`}>
+              <div className="text-slate-300 font-bold">{option.deckSize}</div>
+              <div className="col-span-2 text-left text-slate-400 truncate" title={option.additions.map(a => `${a.copies}x ${a.name}`).join(', ')}>
+                {option.filler ? 'Filler' : option.additions.length > 0 ? option.additions.map(a => `${a.copies}x ${a.name}`).join(', ') : 'Current'}
+              </div>
+              <div className="text-emerald-400">{formatProbability(option.report.starterHit, 1)}</div>
+              <div className="text-red-400">{formatProbability(option.report.allBrick, 2)}</div>
+              <div className="text-purple-400">{option.report.expectedHandTraps.toFixed(2)}</div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,11 +1,38 @@
-import React, { useRef } from 'react';
+import React, { useRef, useState } from 'react';
+import { DECK_FILE_ACCEPT, DeckImportResult, decodeDeck } from '../services/deckCodecs';
+import { toYDK } from '../services/ygoService';
+import { DeckDiagnostics } from './DeckDiagnostics';
 
 interface DeckUploaderProps {
+  /** Receives the imported deck as YDK, whatever format it came in. */
   onUpload: (fileContent: string) => void;
 }
 
 export const DeckUploader: React.FC<DeckUploaderProps> = ({ onUpload }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isPasting, setIsPasting] = useState(false);
+  const [pasted, setPasted] = useState('');
+  const [isDecoding, setIsDecoding] = useState(false);
+  const [result, setResult] = useState<DeckImportResult | null>(null);
+
+  const importContent = async (content: string) => {
+    setIsDecoding(true);
+    try {
+      const decoded = await decodeDeck(content);
+      setResult(decoded.diagnostics.length > 0 ? decoded : null);
+      const { main, extra, side } = decoded.deck;
+      if (main.length + extra.length + side.length > 0) {
+        onUpload(toYDK(decoded.deck));
+        setIsPasting(false);
+        setPasted('');
+      }
+    } catch (err) {
+      console.error("Import failed", err);
+      alert("Failed to import deck.");
+    } finally {
+      setIsDecoding(false);
+    }
+  };
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -14,28 +41,66 @@ export const DeckUploader: React.FC<DeckUploaderProps> = ({ onUpload }) => {
     const reader = new FileReader();
     reader.onload = (event) => {
       const content = event.target?.result as string;
-      onUpload(content);
+      importContent(content);
     };
     reader.readAsText(file);
+    e.target.value = '';
+  };
+
+  const pasteFromClipboard = async () => {
+    try {
+      const text = await navigator.clipboard.readText();
+      setPasted(text);
+      setIsPasting(true);
+    } catch (err) {
+      // Clipboard access can be denied; the text box still accepts a manual paste
+      setIsPasting(true);
+    }
   };
 
   return (
-    <div className="p-6 border-2 border-dashed border-slate-700 rounded-xl bg-slate-800/50 hover:bg-slate-800 transition-colors text-center cursor-pointer group"
-         onClick={() => fileInputRef.current?.click()}>
-      <input 
-        type="file" 
-        ref={fileInputRef} 
-        onChange={handleFileChange} 
-        accept=".ydk,.txt" 
-        className="hidden" 
-      />
-      <div className="flex flex-col items-center gap-2">
-        <svg xmlns="http://www.w3.org/2000/svg" className="h-10 w-10 text-cyan-400 group-hover:scale-110 transition-transform" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" />
-        </svg>
-        <span className="text-slate-300 font-medium">Click to upload .ydk file</span>
-        <span className="text-slate-500 text-sm">or drag and drop</span>
+    <div className="space-y-3">
+      <div className="p-6 border-2 border-dashed border-slate-700 rounded-xl bg-slate-800/50 hover:bg-slate-800 transition-colors text-center cursor-pointer group"
+           onClick={() => fileInputRef.current?.click()}>
+        <input
+          type="file"
+          ref={fileInputRef}
+          onChange={handleFileChange}
+          accept={DECK_FILE_ACCEPT}
+          className="hidden"
+        />
+        <div className="flex flex-col items-center gap-2">
+          {isDecoding ? (
+            <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-cyan-400"></div>
+          ) : (
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-10 w-10 text-cyan-400 group-hover:scale-110 transition-transform" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" />
+            </svg>
+          )}
+          <span className="text-slate-300 font-medium">Click to upload a .ydk, .csv or decklist .txt file</span>
+          <span className="text-slate-500 text-sm">
+            or{' '}
+            <button onClick={(e) => { e.stopPropagation(); pasteFromClipboard(); }} className="text-cyan-400 hover:text-cyan-300 font-medium">paste a ydke:// link or decklist</button>
+          </span>
+        </div>
       </div>
+
+      {isPasting && (
+        <div className="space-y-2">
+          <textarea
+            value={pasted}
+            onChange={(e) => setPasted(e.target.value)}
+            placeholder={'ydke://...\n\nor\n\nMain Deck\n3x Ash Blossom & Joyous Spring\n...\nExtra Deck\n...'}
+            className="w-full h-32 bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-white focus:border-cyan-500 outline-none text-xs font-mono resize-none"
+          />
+          <div className="flex justify-end gap-2">
+            <button onClick={() => { setIsPasting(false); setPasted(''); }} className="px-4 py-2 text-slate-400 hover:text-white font-bold uppercase text-[10px]">Cancel</button>
+            <button onClick={() => importContent(pasted)} disabled={!pasted.trim() || isDecoding} className="px-5 py-2 bg-cyan-600 hover:bg-cyan-500 disabled:opacity-40 text-white font-bold rounded-lg uppercase text-[10px]">Import</button>
+          </div>
+        </div>
+      )}
+
+      {result && <DeckDiagnostics result={result} onDismiss={() => setResult(null)} />}
     </div>
   );
-};
\ No newline at end of file
+};
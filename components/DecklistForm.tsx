@@ -0,0 +1,127 @@
+import React, { useMemo, useState } from 'react';
+import { Card, TournamentMetadata } from '../types';
+import { DecklistRow, buildDecklistForm } from '../services/decklistForm';
+import { DeckIssue } from '../services/deckValidation';
+import { DeckIssueList } from './DeckIssueList';
+
+interface DecklistFormProps {
+  main: Card[];
+  extra: Card[];
+  side: Card[];
+  /** Legality issues with the deck; the form can't be printed until they're fixed. */
+  issues: DeckIssue[];
+  /** Player and event details. Edits are kept on the active tournament, if there is one. */
+  metadata: TournamentMetadata;
+  setMetadata: React.Dispatch<React.SetStateAction<TournamentMetadata>>;
+  onClose: () => void;
+}
+
+const MIN_ROWS = 5;
+
+export const DecklistForm: React.FC<DecklistFormProps> = ({ main, extra, side, issues, metadata, setMetadata, onClose }) => {
+  const [playerName, setPlayerName] = useState(metadata.playerName ?? '');
+  const [playerId, setPlayerId] = useState(metadata.playerId ?? '');
+  const [eventName, setEventName] = useState(metadata.eventName);
+  const [eventDate, setEventDate] = useState(new Date().toISOString().slice(0, 10));
+
+  const form = useMemo(() => buildDecklistForm({ main, extra, side }), [main, extra, side]);
+
+  const updateMetadata = (updates: Partial<TournamentMetadata>) => setMetadata(prev => ({ ...prev, ...updates }));
+
+  const renderSection = (title: string, rows: DecklistRow[], total: number) => (
+    <div className="decklist-section">
+      <div className="flex justify-between border-b-2 border-black font-black uppercase text-xs px-1 py-0.5">
+        <span>{title}</span>
+        <span>Total: {total}</span>
+      </div>
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="border-b border-black text-[9px] uppercase">
+            <th className="w-10 text-center py-0.5 border-r border-black">Qty</th>
+            <th className="text-left px-2">Card Name</th>
+          </tr>
+        </thead>
+        <tbody>
+          {[...rows, ...Array(Math.max(0, MIN_ROWS - rows.length)).fill(null)].map((row: DecklistRow | null, i) => (
+            <tr key={i} className="border-b border-slate-300 h-5">
+              <td className="text-center font-bold border-r border-black">{row?.count ?? ''}</td>
+              <td className="px-2">{row?.name ?? ''}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+
+  return (
+    <div className="bg-slate-800/60 border border-slate-700 rounded-xl p-5 space-y-4">
+      <style>{`
+        @media print {
+          @page { size: A4; margin: 1cm; }
+          html, body, #root, main, .min-h-screen, .flex-1 {
+            height: auto !important;
+            overflow: visible !important;
+            background: white !important;
+          }
+          body * { visibility: hidden; }
+          .decklist-print, .decklist-print * { visibility: visible; }
+          .decklist-print { position: absolute; left: 0; top: 0; width: 100%; }
+          .decklist-section { break-inside: avoid; }
+        }
+      `}</style>
+
+      <div className="flex justify-between items-start gap-4">
+        <div>
+          <h2 className="text-lg font-bold text-white">Tournament Decklist</h2>
+          <p className="text-[10px] text-slate-500">Official-style decklist sheet, ready to print and sign.</p>
+        </div>
+        <div className="flex gap-2">
+          <button onClick={onClose} className="px-3 py-1.5 text-slate-400 hover:text-white text-[10px] font-bold uppercase">Close</button>
+          <button
+            onClick={() => window.print()}
+            disabled={issues.length > 0}
+            title={issues.length > 0 ? 'Fix the deck issues before printing' : undefined}
+            className="px-4 py-1.5 bg-cyan-600 hover:bg-cyan-500 disabled:opacity-40 text-white text-[10px] font-bold rounded uppercase"
+          >
+            Print
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <input type="text" value={playerName} onChange={e => { setPlayerName(e.target.value); updateMetadata({ playerName: e.target.value }); }} placeholder="Player name" className="bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-white text-xs focus:border-cyan-500 outline-none" />
+        <input type="text" value={playerId} onChange={e => { setPlayerId(e.target.value); updateMetadata({ playerId: e.target.value }); }} placeholder="CARD GAME ID" className="bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-white text-xs font-mono focus:border-cyan-500 outline-none" />
+        <input type="text" value={eventName} onChange={e => { setEventName(e.target.value); updateMetadata({ eventName: e.target.value }); }} placeholder="Event" className="bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-white text-xs focus:border-cyan-500 outline-none" />
+        <input type="date" value={eventDate} onChange={e => setEventDate(e.target.value)} className="bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-white text-xs focus:border-cyan-500 outline-none" />
+      </div>
+
+      <DeckIssueList issues={issues} note="Printing is disabled until these are fixed." />
+
+      <div className="decklist-print bg-white text-black rounded p-6 space-y-4">
+        <div className="flex justify-between items-end border-b-4 border-black pb-2">
+          <h1 className="text-2xl font-black uppercase tracking-tight">Decklist</h1>
+          <span className="text-xs font-bold uppercase">Main {form.totals.main} • Extra {form.totals.extra} • Side {form.totals.side}</span>
+        </div>
+        <div className="grid grid-cols-2 gap-x-6 gap-y-1 text-xs">
+          <div className="flex gap-2 border-b border-black"><span className="font-bold uppercase w-24">Name</span><span>{playerName}</span></div>
+          <div className="flex gap-2 border-b border-black"><span className="font-bold uppercase w-24">Card Game ID</span><span className="font-mono">{playerId}</span></div>
+          <div className="flex gap-2 border-b border-black"><span className="font-bold uppercase w-24">Event</span><span>{eventName}</span></div>
+          <div className="flex gap-2 border-b border-black"><span className="font-bold uppercase w-24">Date</span><span>{eventDate}</span></div>
+        </div>
+        <div className="grid grid-cols-3 gap-4">
+          {renderSection('Monster Cards', form.monsters, form.totals.monsters)}
+          {renderSection('Spell Cards', form.spells, form.totals.spells)}
+          {renderSection('Trap Cards', form.traps, form.totals.traps)}
+        </div>
+        <div className="grid grid-cols-2 gap-4">
+          {renderSection('Extra Deck', form.extra, form.totals.extra)}
+          {renderSection('Side Deck', form.side, form.totals.side)}
+        </div>
+        <div className="flex justify-between text-xs font-bold uppercase pt-6">
+          <span className="border-t border-black pt-1 w-1/3">Player Signature</span>
+          <span className="border-t border-black pt-1 w-1/3">Judge Initials</span>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,150 @@
+import React, { useState, useEffect } from 'react';
+import { HyperGroup, HyperCard, HandCondition, formatPercent } from '../services/mathUtils';
+import { DRAW_EFFECT_CATALOGUE, DrawEffectEntry, DrawSimulationResult } from '../services/simulation';
+import { runMathTask, cancelMathTask, handleMathTaskError } from '../services/mathClient';
+
+interface DrawEffectsPanelProps {
+  deckSize: number;
+  handSize: number;
+  groups: HyperGroup[];
+  cards: HyperCard[];
+  conditions: HandCondition[];
+}
+
+const SIMULATION_SEED = 1;
+
+export const DrawEffectsPanel: React.FC<DrawEffectsPanelProps> = ({ deckSize, handSize, groups, cards, conditions }) => {
+  const [entries, setEntries] = useState<DrawEffectEntry[]>([]);
+  const [trials, setTrials] = useState(20000);
+  const [result, setResult] = useState<DrawSimulationResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+
+  // Results go stale as soon as any input changes
+  useEffect(() => {
+    cancelMathTask('drawEffects');
+    setProgress(null);
+    setResult(null);
+    setError(null);
+  }, [deckSize, handSize, groups, cards, conditions, entries]);
+
+  useEffect(() => () => cancelMathTask('drawEffects'), []);
+
+  const available = DRAW_EFFECT_CATALOGUE.filter(d => !entries.some(e => e.effectId === d.id));
+
+  const addEntry = (effectId: string) => {
+    if (!effectId) return;
+    setEntries([...entries, { effectId, copies: effectId === 'upstart' ? 3 : 1 }]);
+  };
+
+  const updateEntry = (effectId: string, copies: number) => {
+    setEntries(entries.map(e => e.effectId === effectId ? { ...e, copies } : e));
+  };
+
+  const removeEntry = (effectId: string) => {
+    setEntries(entries.filter(e => e.effectId !== effectId));
+  };
+
+  const runSimulation = () => {
+    setProgress(0);
+    runMathTask('drawEffects', {
+      kind: 'drawEffects',
+      deckSize,
+      handSize,
+      groups,
+      cards,
+      conditions,
+      entries,
+      trials,
+      seed: SIMULATION_SEED
+    }, setProgress).then(simulated => {
+      setProgress(null);
+      if (!simulated) {
+        setError('Tracked cards plus draw spells exceed the deck size, or the hand size is invalid.');
+        setResult(null);
+        return;
+      }
+      setError(null);
+      setResult(simulated);
+    }).catch(handleMathTaskError);
+  };
+
+  const gain = result ? result.probability - result.baselineProbability : 0;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center gap-4">
+        <div>
+          <h3 className="text-sm font-bold text-white uppercase tracking-wider">Draw &amp; Excavate Spells</h3>
+          <p className="text-[10px] text-slate-500">Simulated odds of hitting {conditions.length > 0 ? 'any condition' : 'all group constraints'} after resolving the spells you open. Spell copies take up deck slots outside every group.</p>
+        </div>
+        <select value="" onChange={(e) => addEntry(e.target.value)} disabled={available.length === 0} className="bg-slate-700 text-white text-xs rounded p-1.5 border border-slate-600 disabled:opacity-40">
+          <option value="">+ Add Spell</option>
+          {available.map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+        </select>
+      </div>
+
+      {entries.length > 0 && (
+        <div className="space-y-2">
+          {entries.map(entry => {
+            const effect = DRAW_EFFECT_CATALOGUE.find(d => d.id === entry.effectId)!;
+            return (
+              <div key={entry.effectId} className="p-3 bg-slate-900/50 rounded-lg border border-slate-700 flex items-center gap-3">
+                <div className="flex-1">
+                  <div className="text-white font-medium">{effect.name}</div>
+                  <div className="text-[10px] text-slate-500">
+                    {[
+                      effect.banishFromDeck > 0 && `Banish ${effect.banishFromDeck} face-down`,
+                      effect.draw > 0 && `Draw ${effect.draw}`,
+                      effect.excavate > 0 && `Excavate ${effect.excavate}, add 1`,
+                      effect.discard > 0 && `Lose ${effect.discard} from hand`,
+                      effect.oncePerTurn && 'Once per turn',
+                      effect.locksDraws && 'No more draws'
+                    ].filter(Boolean).join(' • ')}
+                  </div>
+                </div>
+                <label className="text-[10px] text-slate-500 uppercase">Copies</label>
+                <input type="number" min={0} max={3} value={entry.copies || ''} onChange={(e) => updateEntry(entry.effectId, Math.min(3, parseInt(e.target.value) || 0))} className="w-14 bg-slate-800 text-white text-sm rounded p-1.5 border border-slate-700" />
+                <button onClick={() => removeEntry(entry.effectId)} className="text-slate-500 hover:text-red-400"><svg className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" /></svg></button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="flex items-end gap-3">
+        <div>
+          <label className="text-[10px] text-slate-500 uppercase block mb-1">Trials</label>
+          <input type="number" min={1000} step={1000} value={trials || ''} onChange={(e) => setTrials(Math.min(200000, parseInt(e.target.value) || 0))} className="w-28 bg-slate-700 text-white text-sm rounded p-1.5 border border-slate-600" />
+        </div>
+        <button onClick={runSimulation} disabled={entries.length === 0 || progress !== null} className="px-4 py-2 bg-emerald-600 hover:bg-emerald-500 disabled:opacity-40 text-white text-[10px] font-bold rounded uppercase tracking-widest">Simulate</button>
+      </div>
+
+      {progress !== null && (
+        <div className="w-full h-1.5 bg-slate-900 rounded-full overflow-hidden">
+          <div className="h-full bg-emerald-500 transition-all" style={{ width: `${Math.round(progress * 100)}%` }}></div>
+        </div>
+      )}
+
+      {error && <div className="text-[10px] text-red-400 font-bold">{error}</div>}
+
+      {result && (
+        <div className="grid grid-cols-3 gap-3 text-center">
+          <div className="p-3 bg-slate-900 rounded-lg border border-slate-700">
+            <div className="text-2xl font-black text-slate-300">{formatPercent(result.baselineProbability)}</div>
+            <div className="text-[10px] text-slate-500 uppercase font-bold">Raw Hand</div>
+          </div>
+          <div className="p-3 bg-slate-900 rounded-lg border border-emerald-500/20">
+            <div className="text-2xl font-black text-emerald-400">{formatPercent(result.probability)}</div>
+            <div className="text-[10px] text-slate-500 uppercase font-bold">After Spells</div>
+          </div>
+          <div className="p-3 bg-slate-900 rounded-lg border border-cyan-500/20">
+            <div className="text-2xl font-black text-cyan-400">+{gain.toFixed(2)}</div>
+            <div className="text-[10px] text-slate-500 uppercase font-bold">Points Gained</div>
+          </div>
+          <div className="col-span-3 text-[10px] text-slate-500">{result.trials.toLocaleString()} simulated hands</div>
+        </div>
+      )}
+    </div>
+  );
+};
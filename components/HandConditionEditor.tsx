@@ -0,0 +1,91 @@
+import React from 'react';
+import { HyperGroup, HandCondition, HandRequirement } from '../services/mathUtils';
+
+interface HandConditionEditorProps {
+  groups: HyperGroup[];
+  conditions: HandCondition[];
+  setConditions: React.Dispatch<React.SetStateAction<HandCondition[]>>;
+}
+
+export const HandConditionEditor: React.FC<HandConditionEditorProps> = ({ groups, conditions, setConditions }) => {
+  const addCondition = () => {
+    setConditions(prev => [...prev, {
+      id: Date.now().toString(),
+      name: `Line ${prev.length + 1}`,
+      requirements: groups.length > 0 ? [{ groupId: groups[0].id, min: 1, max: 5 }] : []
+    }]);
+  };
+
+  const removeCondition = (id: string) => setConditions(prev => prev.filter(c => c.id !== id));
+
+  const updateCondition = (id: string, updates: Partial<HandCondition>) => {
+    setConditions(prev => prev.map(c => c.id === id ? { ...c, ...updates } : c));
+  };
+
+  const addRequirement = (condition: HandCondition) => {
+    if (groups.length === 0) return;
+    updateCondition(condition.id, {
+      requirements: [...condition.requirements, { groupId: groups[0].id, min: 1, max: 5 }]
+    });
+  };
+
+  const updateRequirement = (condition: HandCondition, index: number, updates: Partial<HandRequirement>) => {
+    updateCondition(condition.id, {
+      requirements: condition.requirements.map((r, i) => i === index ? { ...r, ...updates } : r)
+    });
+  };
+
+  const removeRequirement = (condition: HandCondition, index: number) => {
+    updateCondition(condition.id, {
+      requirements: condition.requirements.filter((_, i) => i !== index)
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <div>
+          <h3 className="text-sm font-bold text-white uppercase tracking-wider">Hand Conditions</h3>
+          <p className="text-[10px] text-slate-500">Each line needs <strong>all</strong> of its requirements. The hand succeeds if <strong>any</strong> line does.</p>
+        </div>
+        <button onClick={addCondition} disabled={groups.length === 0} className="text-xs px-3 py-1 bg-cyan-600 hover:bg-cyan-500 disabled:opacity-40 text-white rounded font-medium">+ Add Line</button>
+      </div>
+
+      {conditions.length === 0 && (
+        <div className="text-center p-4 text-slate-600 italic text-[10px] border border-dashed border-slate-700 rounded-lg">No conditions yet. Add a line such as "1 Starter" or "Extender A + Extender B".</div>
+      )}
+
+      {conditions.map((condition, conditionIndex) => (
+        <React.Fragment key={condition.id}>
+          {conditionIndex > 0 && <div className="text-center text-[10px] font-black text-cyan-500 uppercase tracking-[0.3em]">or</div>}
+          <div className="p-4 bg-slate-900/50 rounded-lg border border-slate-700 space-y-3">
+            <div className="flex gap-4 items-center">
+              <input type="text" value={condition.name} onChange={(e) => updateCondition(condition.id, { name: e.target.value })} className="flex-1 bg-transparent border-b border-slate-700 outline-none text-white font-medium" />
+              <button onClick={() => removeCondition(condition.id)} className="text-slate-500 hover:text-red-400"><svg className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" /></svg></button>
+            </div>
+            {condition.requirements.map((req, reqIndex) => (
+              <div key={reqIndex} className="grid grid-cols-12 gap-2 items-end">
+                <div className="col-span-6">
+                  <label className="text-[10px] text-slate-500 uppercase">Group</label>
+                  <select value={req.groupId} onChange={(e) => updateRequirement(condition, reqIndex, { groupId: e.target.value })} className="w-full bg-slate-800 text-white text-sm rounded p-2 border border-slate-700">
+                    {groups.map(g => <option key={g.id} value={g.id}>{g.name}</option>)}
+                  </select>
+                </div>
+                <div className="col-span-2">
+                  <label className="text-[10px] text-slate-500 uppercase">Min</label>
+                  <input type="number" value={req.min || ''} onChange={(e) => updateRequirement(condition, reqIndex, { min: parseInt(e.target.value) || 0 })} className="w-full bg-slate-800 text-white text-sm rounded p-2 border border-slate-700" />
+                </div>
+                <div className="col-span-2">
+                  <label className="text-[10px] text-slate-500 uppercase">Max</label>
+                  <input type="number" value={req.max || ''} onChange={(e) => updateRequirement(condition, reqIndex, { max: parseInt(e.target.value) || 0 })} className="w-full bg-slate-800 text-white text-sm rounded p-2 border border-slate-700" />
+                </div>
+                <button onClick={() => removeRequirement(condition, reqIndex)} className="col-span-2 py-2 text-[10px] font-bold text-slate-500 hover:text-red-400 uppercase">Remove</button>
+              </div>
+            ))}
+            <button onClick={() => addRequirement(condition)} className="text-[10px] font-bold text-cyan-500 hover:text-cyan-400 uppercase">+ And</button>
+          </div>
+        </React.Fragment>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,76 @@
+import React from 'react';
+import { HyperGroup, HyperCard } from '../services/mathUtils';
+
+interface HyperCardListProps {
+  deckSize: number;
+  groups: HyperGroup[];
+  cards: HyperCard[];
+  setCards: React.Dispatch<React.SetStateAction<HyperCard[]>>;
+}
+
+export const HyperCardList: React.FC<HyperCardListProps> = ({ deckSize, groups, cards, setCards }) => {
+  const totalCopies = cards.reduce((acc, c) => acc + c.copies, 0);
+
+  const addCard = () => {
+    setCards(prev => [...prev, {
+      id: Date.now().toString(),
+      name: `Card ${prev.length + 1}`,
+      copies: 3,
+      groupIds: []
+    }]);
+  };
+
+  const removeCard = (id: string) => setCards(prev => prev.filter(c => c.id !== id));
+
+  const updateCard = (id: string, updates: Partial<HyperCard>) => {
+    setCards(prev => prev.map(c => c.id === id ? { ...c, ...updates } : c));
+  };
+
+  const toggleTag = (card: HyperCard, groupId: string) => {
+    const groupIds = card.groupIds.includes(groupId)
+      ? card.groupIds.filter(id => id !== groupId)
+      : [...card.groupIds, groupId];
+    updateCard(card.id, { groupIds });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <div>
+          <h3 className="text-sm font-bold text-white uppercase tracking-wider">Cards</h3>
+          <p className={`text-[10px] ${totalCopies > deckSize ? 'text-red-400 font-bold' : 'text-slate-500'}`}>
+            {totalCopies} / {deckSize} copies tagged{totalCopies > deckSize ? ' — exceeds deck size' : ''}. A card may belong to several groups.
+          </p>
+        </div>
+        <button onClick={addCard} className="text-xs px-3 py-1 bg-cyan-600 hover:bg-cyan-500 text-white rounded font-medium">+ Add Card</button>
+      </div>
+
+      <div className="space-y-2">
+        {cards.map(card => (
+          <div key={card.id} className="p-3 bg-slate-900/50 rounded-lg border border-slate-700 flex flex-col sm:flex-row sm:items-center gap-3">
+            <input type="text" value={card.name} onChange={(e) => updateCard(card.id, { name: e.target.value })} className="flex-1 bg-transparent border-b border-slate-700 outline-none text-white font-medium" />
+            <div className="flex items-center gap-2">
+              <label className="text-[10px] text-slate-500 uppercase">Copies</label>
+              <input type="number" min={0} value={card.copies || ''} onChange={(e) => updateCard(card.id, { copies: parseInt(e.target.value) || 0 })} className="w-16 bg-slate-800 text-white text-sm rounded p-1.5 border border-slate-700" />
+            </div>
+            <div className="flex flex-wrap gap-1.5">
+              {groups.map(group => {
+                const isTagged = card.groupIds.includes(group.id);
+                return (
+                  <button
+                    key={group.id}
+                    onClick={() => toggleTag(card, group.id)}
+                    className={`px-2 py-0.5 rounded text-[10px] font-medium border transition-all ${isTagged ? 'bg-cyan-900/40 text-cyan-300 border-cyan-800' : 'bg-slate-800 text-slate-500 border-slate-700 hover:border-slate-500'}`}
+                  >
+                    {group.name}
+                  </button>
+                );
+              })}
+            </div>
+            <button onClick={() => removeCard(card.id)} className="text-slate-500 hover:text-red-400"><svg className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" /></svg></button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
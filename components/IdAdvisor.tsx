@@ -0,0 +1,99 @@
+import React, { useState, useEffect } from 'react';
+import { IdStrategyOutcome } from '../services/swissSimulation';
+import { formatPercent } from '../services/mathUtils';
+import { runMathTask, cancelMathTask, handleMathTaskError } from '../services/mathClient';
+
+interface IdAdvisorProps {
+  players: number;
+  rounds: number;
+  topCut: number;
+  wins: number;
+  losses: number;
+  /** Win rate per played-out round, in percent. */
+  winRate: number;
+}
+
+const ADVISOR_EVENTS = 2000;
+const ADVISOR_SEED = 1;
+
+export const IdAdvisor: React.FC<IdAdvisorProps> = ({ players, rounds, topCut, wins, losses, winRate }) => {
+  // The Top X inputs have no draws, so draws (IDs included) taken so far are entered here
+  const [draws, setDraws] = useState(0);
+  const [drawRate, setDrawRate] = useState(5);
+  const [fieldIdRounds, setFieldIdRounds] = useState(1);
+  const [outcomes, setOutcomes] = useState<IdStrategyOutcome[] | null>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+
+  useEffect(() => {
+    cancelMathTask('idAdvisor');
+    setProgress(null);
+    setOutcomes(null);
+  }, [players, rounds, topCut, wins, losses, draws, winRate, drawRate, fieldIdRounds]);
+
+  useEffect(() => () => cancelMathTask('idAdvisor'), []);
+
+  const remaining = rounds - wins - losses - draws;
+
+  const runAdvisor = () => {
+    setProgress(0);
+    runMathTask('idAdvisor', {
+      kind: 'idAdvisor',
+      input: { players, rounds, topCut, record: { wins, losses, draws }, winRate: winRate / 100, drawRate: drawRate / 100, idRounds: fieldIdRounds },
+      iterations: ADVISOR_EVENTS,
+      seed: ADVISOR_SEED
+    }, setProgress)
+      .then(result => {
+        setProgress(null);
+        setOutcomes(result);
+      })
+      .catch(handleMathTaskError);
+  };
+
+  const best = outcomes ? outcomes.reduce((a, b) => b.cutChance > a.cutChance ? b : a) : null;
+  const playOut = outcomes ? outcomes[0] : null;
+
+  return (
+    <div className="bg-slate-800 rounded-xl border border-slate-700 p-6 shadow-2xl space-y-4">
+      <div>
+        <h2 className="text-xl font-bold text-white">ID Advisor</h2>
+        <p className="text-[10px] text-slate-500">Top {topCut} odds from {wins}-{losses}{draws > 0 ? `-${draws}` : ''} if you play out every round or take an intentional draw, over {ADVISOR_EVENTS.toLocaleString()} simulated events. Other tables inside the cut ID in the final rounds.</p>
+      </div>
+      <div className="grid grid-cols-3 gap-3">
+        <div>
+          <label className="block text-[10px] font-medium text-slate-500 uppercase mb-1">Draws</label>
+          <input type="number" min={0} value={draws || ''} onChange={(e) => setDraws(Math.max(0, parseInt(e.target.value) || 0))} className="w-full bg-slate-700 text-white rounded px-3 py-2 border border-slate-600" />
+        </div>
+        <div>
+          <label className="block text-[10px] font-medium text-slate-500 uppercase mb-1">Draw %</label>
+          <input type="number" min={0} max={100} value={drawRate} onChange={(e) => setDrawRate(Math.min(100, parseFloat(e.target.value) || 0))} className="w-full bg-slate-700 text-white rounded px-3 py-2 border border-slate-600" />
+        </div>
+        <div>
+          <label className="block text-[10px] font-medium text-slate-500 uppercase mb-1">Field ID Rounds</label>
+          <input type="number" min={0} value={fieldIdRounds} onChange={(e) => setFieldIdRounds(Math.max(0, parseInt(e.target.value) || 0))} className="w-full bg-slate-700 text-white rounded px-3 py-2 border border-slate-600" />
+        </div>
+      </div>
+      <button onClick={runAdvisor} disabled={remaining <= 0 || players < 2 || topCut <= 0 || progress !== null} className="w-full py-2.5 bg-emerald-600 disabled:opacity-40 text-white font-bold rounded transition-all text-xs uppercase tracking-widest shadow-md">{remaining > 0 ? 'Compare Plans' : 'No Rounds Left'}</button>
+
+      {progress !== null && (
+        <div className="w-full h-1.5 bg-slate-900 rounded-full overflow-hidden">
+          <div className="h-full bg-emerald-500 transition-all" style={{ width: `${Math.round(progress * 100)}%` }}></div>
+        </div>
+      )}
+
+      {outcomes && best && playOut && (
+        <div className="space-y-2">
+          {outcomes.map(outcome => (
+            <div key={outcome.label} className={`flex justify-between items-center p-2 rounded border text-xs ${outcome === best ? 'border-emerald-500/40 bg-emerald-950/20' : 'border-slate-700/50'}`}>
+              <span className="text-slate-300 font-medium">{outcome.label}</span>
+              <span className="flex gap-3 items-baseline">
+                {outcome !== playOut && <span className={`text-[10px] ${outcome.cutChance >= playOut.cutChance ? 'text-emerald-500' : 'text-red-400'}`}>{outcome.cutChance >= playOut.cutChance ? '+' : ''}{(outcome.cutChance - playOut.cutChance).toFixed(1)}</span>}
+                <span className="font-black text-emerald-400">{formatPercent(outcome.cutChance, 1)}</span>
+              </span>
+            </div>
+          ))}
+          <p className="text-[10px] text-slate-400">Recommended: <b className="text-emerald-400">{best.label}</b></p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,162 @@
+import React, { useState, useMemo } from 'react';
+import { BarChart, Bar, ErrorBar, Legend, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { Archetype, TournamentReport } from '../types';
+import { formatPercent } from '../services/mathUtils';
+import { RateStat, getMatchupAnalytics, getOverallAnalytics } from '../services/tournamentStats';
+import { findArchetype } from '../services/archetypes';
+import { ArchetypeArtwork } from './ArchetypeArtwork';
+
+interface MatchupAnalyticsProps {
+  /** Reports from every logged event. */
+  reports: TournamentReport[];
+  archetypes: Archetype[];
+}
+
+const formatRate = (stat: RateStat) => stat.total > 0 ? formatPercent(stat.rate, 1) : '—';
+
+const formatInterval = (stat: RateStat) => stat.total > 0 ? `${stat.lower.toFixed(0)}–${stat.upper.toFixed(0)}%` : '';
+
+const RateCell: React.FC<{ stat: RateStat }> = ({ stat }) => (
+  <div>
+    <div className="text-slate-200 font-bold">{formatRate(stat)} <span className="text-slate-500 font-normal">({stat.total})</span></div>
+    <div className="text-[9px] text-slate-600">{formatInterval(stat)}</div>
+  </div>
+);
+
+const SummaryTile: React.FC<{ label: string; stat: RateStat; unit: string }> = ({ label, stat, unit }) => (
+  <div className="bg-slate-800 rounded-xl border border-slate-700 p-4">
+    <div className="text-[10px] text-slate-500 uppercase font-bold tracking-widest">{label}</div>
+    <div className="text-2xl font-black text-cyan-400 mt-1">{formatRate(stat)}</div>
+    <div className="text-[10px] text-slate-500">{stat.wins} / {stat.total} {unit}{stat.total > 0 && ` • 95% CI ${formatInterval(stat)}`}</div>
+  </div>
+);
+
+export const MatchupAnalytics: React.FC<MatchupAnalyticsProps> = ({ reports, archetypes }) => {
+  const [minMatches, setMinMatches] = useState(1);
+
+  const overall = useMemo(() => getOverallAnalytics(reports), [reports]);
+  const matchups = useMemo(() => getMatchupAnalytics(reports, archetypes), [reports, archetypes]);
+  const shown = matchups.filter(m => m.record.matches >= minMatches);
+
+  const rollImpact = overall.wonRoll.total > 0 && overall.lostRoll.total > 0 ? overall.wonRoll.rate - overall.lostRoll.rate : null;
+
+  // ErrorBar takes the distance below and above each bar
+  const winRateData = shown.map(m => ({
+    matchup: m.record.matchup,
+    rate: m.matchWin.rate,
+    interval: [m.matchWin.rate - m.matchWin.lower, m.matchWin.upper - m.matchWin.rate]
+  }));
+  const playOrderData = shown
+    .filter(m => m.goingFirst.total > 0 || m.goingSecond.total > 0)
+    .map(m => ({ matchup: m.record.matchup, goingFirst: m.goingFirst.rate, goingSecond: m.goingSecond.rate }));
+
+  if (overall.record.matches === 0) {
+    return (
+      <div className="text-center py-20 bg-slate-800/30 rounded-2xl border border-slate-800">
+        <p className="text-slate-500 font-medium italic">Finish a round in the Tournament Tracker to see matchup analytics.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        <SummaryTile label="Match Win Rate" stat={overall.matchWin} unit="matches" />
+        <SummaryTile label="Going First" stat={overall.goingFirst} unit="games" />
+        <SummaryTile label="Going Second" stat={overall.goingSecond} unit="games" />
+        <div className="bg-slate-800 rounded-xl border border-slate-700 p-4">
+          <div className="text-[10px] text-slate-500 uppercase font-bold tracking-widest">Dice Roll Impact</div>
+          <div className={`text-2xl font-black mt-1 ${rollImpact === null ? 'text-slate-500' : rollImpact >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+            {rollImpact === null ? '—' : `${rollImpact >= 0 ? '+' : ''}${rollImpact.toFixed(1)} pts`}
+          </div>
+          <div className="text-[10px] text-slate-500">Won roll {formatRate(overall.wonRoll)} ({overall.wonRoll.total}) • Lost roll {formatRate(overall.lostRoll)} ({overall.lostRoll.total})</div>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2 text-[10px] text-slate-500 uppercase">
+        <label>Min Matches</label>
+        <input type="number" min={1} value={minMatches} onChange={(e) => setMinMatches(Math.max(1, parseInt(e.target.value) || 1))} className="w-16 bg-slate-700 text-white text-sm rounded p-1.5 border border-slate-600" />
+        <span className="normal-case">{shown.length} of {matchups.length} matchups shown. Play-order rates count logged games only.</span>
+      </div>
+
+      {shown.length > 0 && (
+        <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+          <div className="w-full bg-slate-900 rounded-xl p-4 border border-slate-800" style={{ height: Math.max(256, winRateData.length * 36 + 80) }}>
+            <h3 className="text-sm font-semibold text-slate-400 mb-4">Match win rate (95% Wilson interval)</h3>
+            <ResponsiveContainer width="100%" height="85%">
+              <BarChart data={winRateData} layout="vertical">
+                <CartesianGrid strokeDasharray="3 3" stroke="#334155" horizontal={false} />
+                <XAxis type="number" stroke="#94a3b8" unit="%" domain={[0, 100]} />
+                <YAxis dataKey="matchup" type="category" stroke="#94a3b8" width={110} tick={{ fontSize: 10 }} />
+                <Tooltip
+                  contentStyle={{ backgroundColor: '#1e293b', border: 'none', borderRadius: '8px' }}
+                  itemStyle={{ color: '#e2e8f0' }}
+                  formatter={(value: number) => [formatPercent(value, 1), 'Win Rate']}
+                />
+                <ReferenceLine x={50} stroke="#64748b" strokeDasharray="4 4" />
+                <Bar dataKey="rate" fill="#22d3ee" radius={[0, 4, 4, 0]}>
+                  <ErrorBar dataKey="interval" width={4} stroke="#e2e8f0" />
+                </Bar>
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+
+          {playOrderData.length > 0 && (
+            <div className="w-full bg-slate-900 rounded-xl p-4 border border-slate-800" style={{ height: Math.max(256, playOrderData.length * 44 + 80) }}>
+              <h3 className="text-sm font-semibold text-slate-400 mb-4">Game win rate by play order</h3>
+              <ResponsiveContainer width="100%" height="85%">
+                <BarChart data={playOrderData} layout="vertical">
+                  <CartesianGrid strokeDasharray="3 3" stroke="#334155" horizontal={false} />
+                  <XAxis type="number" stroke="#94a3b8" unit="%" domain={[0, 100]} />
+                  <YAxis dataKey="matchup" type="category" stroke="#94a3b8" width={110} tick={{ fontSize: 10 }} />
+                  <Tooltip
+                    contentStyle={{ backgroundColor: '#1e293b', border: 'none', borderRadius: '8px' }}
+                    itemStyle={{ color: '#e2e8f0' }}
+                    formatter={(value: number, name: string) => [formatPercent(value, 1), name]}
+                  />
+                  <Legend wrapperStyle={{ fontSize: '10px' }} />
+                  <Bar dataKey="goingFirst" name="Going First" fill="#22d3ee" radius={[0, 4, 4, 0]} />
+                  <Bar dataKey="goingSecond" name="Going Second" fill="#f59e0b" radius={[0, 4, 4, 0]} />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="bg-slate-800 rounded-xl border border-slate-700 overflow-x-auto">
+        <table className="w-full text-left text-xs">
+          <thead className="bg-slate-900/50 text-[10px] text-slate-500 uppercase">
+            <tr>
+              <th className="p-3">Matchup</th>
+              <th className="p-3">W-L-D</th>
+              <th className="p-3">Match Win</th>
+              <th className="p-3">Going 1st</th>
+              <th className="p-3">Going 2nd</th>
+              <th className="p-3">Won Roll</th>
+              <th className="p-3">Lost Roll</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-700/50">
+            {shown.map(m => (
+              <tr key={m.record.matchup} className="hover:bg-slate-700/30">
+                <td className="p-3 font-bold text-white">
+                  <div className="flex items-center gap-2">
+                    <ArchetypeArtwork cardIds={findArchetype(m.record.matchup, archetypes)?.cardIds ?? []} />
+                    {m.record.matchup}
+                  </div>
+                </td>
+                <td className="p-3 font-mono text-slate-300">{m.record.wins}-{m.record.losses}-{m.record.draws}</td>
+                <td className="p-3"><RateCell stat={m.matchWin} /></td>
+                <td className="p-3"><RateCell stat={m.goingFirst} /></td>
+                <td className="p-3"><RateCell stat={m.goingSecond} /></td>
+                <td className="p-3"><RateCell stat={m.wonRoll} /></td>
+                <td className="p-3"><RateCell stat={m.lostRoll} /></td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,168 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Card } from '../types';
+import { ExactProbability, formatPercent, formatProbability, formatOneIn } from '../services/mathUtils';
+import { HandRule, HandRuleClause, MonteCarloResult, rulesToExactModel } from '../services/simulation';
+import { runMathTask, cancelMathTask, handleMathTaskError } from '../services/mathClient';
+
+interface MonteCarloPanelProps {
+  deck: Card[];
+  handSize: number;
+  selectedCards: Set<string>;
+}
+
+export const MonteCarloPanel: React.FC<MonteCarloPanelProps> = ({ deck, handSize, selectedCards }) => {
+  const [rules, setRules] = useState<HandRule[]>([]);
+  const [trials, setTrials] = useState(10000);
+  const [seed, setSeed] = useState(1);
+  const [result, setResult] = useState<MonteCarloResult | null>(null);
+  const [exactResult, setExactResult] = useState<ExactProbability | null>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+
+  const cardNames = useMemo(() => Array.from(new Set<string>(deck.map(c => c.name))).sort((a, b) => a.localeCompare(b)), [deck]);
+
+  // Results go stale as soon as any input changes
+  useEffect(() => {
+    cancelMathTask('monteCarlo');
+    cancelMathTask('monteCarloExact');
+    setProgress(null);
+    setResult(null);
+    setExactResult(null);
+  }, [deck, handSize, rules]);
+
+  useEffect(() => () => {
+    cancelMathTask('monteCarlo');
+    cancelMathTask('monteCarloExact');
+  }, []);
+
+  const addRule = () => {
+    const initialNames = Array.from(selectedCards).filter(name => cardNames.includes(name));
+    setRules([...rules, {
+      id: Date.now().toString(),
+      name: `Rule ${rules.length + 1}`,
+      clauses: [{ cardNames: initialNames, min: 1, max: handSize, distinct: false }]
+    }]);
+  };
+
+  const updateRule = (id: string, updates: Partial<HandRule>) => {
+    setRules(rules.map(r => r.id === id ? { ...r, ...updates } : r));
+  };
+
+  const updateClause = (rule: HandRule, index: number, updates: Partial<HandRuleClause>) => {
+    updateRule(rule.id, { clauses: rule.clauses.map((c, i) => i === index ? { ...c, ...updates } : c) });
+  };
+
+  const runSimulation = () => {
+    setProgress(0);
+    runMathTask('monteCarlo', { kind: 'monteCarlo', deck, handSize, rules, trials, seed }, setProgress)
+      .then(simulated => {
+        setProgress(null);
+        setResult(simulated);
+      })
+      .catch(handleMathTaskError);
+
+    const model = rulesToExactModel(deck, rules);
+    if (!model) {
+      setExactResult(null);
+      return;
+    }
+    runMathTask('monteCarloExact', { kind: 'hyper', deckSize: deck.length, handSize, ...model })
+      .then(exact => setExactResult(exact.anyCondition))
+      .catch(handleMathTaskError);
+  };
+
+  return (
+    <div className="bg-slate-800/50 rounded-xl border border-slate-700 p-5 space-y-4">
+      <div className="flex justify-between items-center gap-4">
+        <div>
+          <h2 className="text-lg font-bold text-white">Hand Simulator</h2>
+          <p className="text-[10px] text-slate-500">Monte Carlo over the current main deck. A hand succeeds if any rule passes; every clause in a rule must pass.</p>
+        </div>
+        <button onClick={addRule} className="text-xs px-3 py-1 bg-cyan-600 hover:bg-cyan-500 text-white rounded font-medium shrink-0">+ Add Rule</button>
+      </div>
+
+      {rules.map((rule, ruleIndex) => (
+        <React.Fragment key={rule.id}>
+          {ruleIndex > 0 && <div className="text-center text-[10px] font-black text-cyan-500 uppercase tracking-[0.3em]">or</div>}
+          <div className="p-4 bg-slate-900/50 rounded-lg border border-slate-700 space-y-3">
+            <div className="flex gap-4 items-center">
+              <input type="text" value={rule.name} onChange={(e) => updateRule(rule.id, { name: e.target.value })} className="flex-1 bg-transparent border-b border-slate-700 outline-none text-white font-medium" />
+              <button onClick={() => setRules(rules.filter(r => r.id !== rule.id))} className="text-slate-500 hover:text-red-400"><svg className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" /></svg></button>
+            </div>
+            {rule.clauses.map((clause, clauseIndex) => (
+              <div key={clauseIndex} className="p-3 bg-slate-800/60 rounded border border-slate-700/60 space-y-2">
+                <div className="flex flex-wrap gap-1.5">
+                  {clause.cardNames.map(name => (
+                    <button key={name} onClick={() => updateClause(rule, clauseIndex, { cardNames: clause.cardNames.filter(n => n !== name) })} className="inline-flex px-2 py-0.5 rounded bg-cyan-900/40 text-cyan-300 border border-cyan-800 text-[10px] font-medium hover:border-red-500" title="Remove">{name}</button>
+                  ))}
+                  <select value="" onChange={(e) => e.target.value && updateClause(rule, clauseIndex, { cardNames: [...clause.cardNames, e.target.value] })} className="bg-slate-700 text-white text-[10px] rounded px-1 py-0.5 border border-slate-600">
+                    <option value="">+ Card</option>
+                    {cardNames.filter(n => !clause.cardNames.includes(n)).map(n => <option key={n} value={n}>{n}</option>)}
+                  </select>
+                </div>
+                <div className="flex items-center gap-3 text-[10px] text-slate-500 uppercase">
+                  <label>Min</label>
+                  <input type="number" min={0} value={clause.min} onChange={(e) => updateClause(rule, clauseIndex, { min: parseInt(e.target.value) || 0 })} className="w-14 bg-slate-800 text-white text-sm rounded p-1 border border-slate-700" />
+                  <label>Max</label>
+                  <input type="number" min={0} value={clause.max} onChange={(e) => updateClause(rule, clauseIndex, { max: parseInt(e.target.value) || 0 })} className="w-14 bg-slate-800 text-white text-sm rounded p-1 border border-slate-700" />
+                  <label className="flex items-center gap-1 normal-case"><input type="checkbox" checked={clause.distinct} onChange={(e) => updateClause(rule, clauseIndex, { distinct: e.target.checked })} /> Count different names</label>
+                  <button onClick={() => updateRule(rule.id, { clauses: rule.clauses.filter((_, i) => i !== clauseIndex) })} className="ml-auto font-bold hover:text-red-400">Remove</button>
+                </div>
+              </div>
+            ))}
+            <button onClick={() => updateRule(rule.id, { clauses: [...rule.clauses, { cardNames: [], min: 1, max: handSize, distinct: false }] })} className="text-[10px] font-bold text-cyan-500 hover:text-cyan-400 uppercase">+ And</button>
+          </div>
+        </React.Fragment>
+      ))}
+
+      <div className="flex flex-wrap items-end gap-3">
+        <div>
+          <label className="text-[10px] text-slate-500 uppercase block mb-1">Hands</label>
+          <input type="number" min={100} step={1000} value={trials || ''} onChange={(e) => setTrials(Math.min(200000, parseInt(e.target.value) || 0))} className="w-28 bg-slate-700 text-white text-sm rounded p-1.5 border border-slate-600" />
+        </div>
+        <div>
+          <label className="text-[10px] text-slate-500 uppercase block mb-1">Seed</label>
+          <div className="flex gap-1">
+            <input type="number" value={seed} onChange={(e) => setSeed(parseInt(e.target.value) || 0)} className="w-28 bg-slate-700 text-white text-sm rounded p-1.5 border border-slate-600" />
+            <button onClick={() => setSeed(Math.floor(Math.random() * 1_000_000_000))} className="px-2 bg-slate-700 hover:bg-slate-600 text-slate-300 text-[10px] font-bold rounded uppercase">Random</button>
+          </div>
+        </div>
+        <button onClick={runSimulation} disabled={rules.length === 0 || progress !== null} className="px-4 py-2 bg-emerald-600 hover:bg-emerald-500 disabled:opacity-40 text-white text-[10px] font-bold rounded uppercase tracking-widest">Simulate</button>
+      </div>
+
+      {progress !== null && (
+        <div className="w-full h-1.5 bg-slate-900 rounded-full overflow-hidden">
+          <div className="h-full bg-emerald-500 transition-all" style={{ width: `${Math.round(progress * 100)}%` }}></div>
+        </div>
+      )}
+
+      {result && (
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 text-center">
+            <div className="p-4 bg-slate-900 rounded-lg border border-emerald-500/20">
+              <div className="text-3xl font-black text-emerald-400">{formatPercent(result.probability)}</div>
+              <div className="text-[10px] text-slate-500 uppercase font-bold">Estimated • 95% CI {result.confidence.lower.toFixed(2)}–{result.confidence.upper.toFixed(2)}%</div>
+            </div>
+            <div className="p-4 bg-slate-900 rounded-lg border border-slate-700">
+              <div className="text-3xl font-black text-slate-300">{exactResult !== null ? formatProbability(exactResult) : '—'}</div>
+              <div className="text-[10px] text-slate-500 uppercase font-bold">{exactResult !== null ? `Exact • ${formatOneIn(exactResult)}` : 'No closed form for distinct-name clauses'}</div>
+            </div>
+          </div>
+          <div className="text-[10px] text-slate-500">{result.successes.toLocaleString()} of {result.trials.toLocaleString()} hands succeeded (seed {seed}).</div>
+          <div className="space-y-2">
+            <h3 className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Sample Hands</h3>
+            {result.sampleHands.map((hand, i) => (
+              <div key={i} className={`flex items-center gap-2 p-2 rounded-lg border ${hand.success ? 'border-emerald-500/30 bg-emerald-950/10' : 'border-red-500/30 bg-red-950/10'}`}>
+                <div className={`w-6 text-center text-[10px] font-black ${hand.success ? 'text-emerald-400' : 'text-red-400'}`}>{hand.success ? '✓' : '✗'}</div>
+                <div className="grid grid-cols-6 gap-1 flex-1">
+                  {hand.cards.map((card, j) => (
+                    <img key={j} src={card.card_images[0].image_url_small} alt={card.name} title={card.name} className="w-full aspect-[2/3] object-cover rounded" />
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
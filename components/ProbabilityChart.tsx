@@ -1,5 +1,6 @@
 import React from 'react';
-import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell } from 'recharts';
+import { BarChart, Bar, LineChart, Line, Legend, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell } from 'recharts';
+import { TurnProbability, formatPercent } from '../services/mathUtils';
 
 interface ProbData {
   drawCount: number;
@@ -23,7 +24,7 @@ export const ProbabilityChart: React.FC<Props> = ({ data }) => {
           <Tooltip 
             contentStyle={{ backgroundColor: '#1e293b', border: 'none', borderRadius: '8px' }}
             itemStyle={{ color: '#e2e8f0' }}
-            formatter={(value: number) => [`${value}%`, 'Chance']}
+            formatter={(value: number) => [formatPercent(value), 'Chance']}
           />
           <Bar dataKey="exact" fill="#22d3ee" radius={[0, 4, 4, 0]}>
             {data.map((entry, index) => (
@@ -34,4 +35,33 @@ export const ProbabilityChart: React.FC<Props> = ({ data }) => {
       </ResponsiveContainer>
     </div>
   );
+};
+
+interface TurnChartProps {
+  data: TurnProbability[];
+  title: string;
+}
+
+export const TurnProbabilityChart: React.FC<TurnChartProps> = ({ data, title }) => {
+  return (
+    <div className="w-full h-64 mt-4 bg-slate-900 rounded-xl p-4 pb-10 border border-slate-800">
+      <h3 className="text-sm font-semibold text-slate-400 mb-4">{title}</h3>
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={data}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+          <XAxis dataKey="turn" stroke="#94a3b8" tickFormatter={(turn: number) => `T${turn}`} />
+          <YAxis stroke="#94a3b8" unit="%" domain={[0, 100]} />
+          <Tooltip 
+            contentStyle={{ backgroundColor: '#1e293b', border: 'none', borderRadius: '8px' }}
+            itemStyle={{ color: '#e2e8f0' }}
+            labelFormatter={(turn) => `Turn ${turn}`}
+            formatter={(value: number, name: string) => [formatPercent(value), name]}
+          />
+          <Legend wrapperStyle={{ fontSize: '10px' }} />
+          <Line type="monotone" dataKey="goingFirst" name="Going First" stroke="#22d3ee" strokeWidth={2} dot={{ r: 3 }} />
+          <Line type="monotone" dataKey="goingSecond" name="Going Second" stroke="#f59e0b" strokeWidth={2} dot={{ r: 3 }} />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
 };
\ No newline at end of file
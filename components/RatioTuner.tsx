@@ -0,0 +1,169 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Card, CardRole, CardRoleMap } from '../types';
+import { HyperGroup, formatProbability, formatOneIn } from '../services/mathUtils';
+import { CARD_ROLES } from '../services/roleAnalysis';
+import { RatioCandidate, RatioTuningResult } from '../services/optimizer';
+import { Banlist, getCopyLimit } from '../services/banlists';
+import { runMathTask, cancelMathTask, handleMathTaskError } from '../services/mathClient';
+
+interface RatioTunerProps {
+  deck: Card[];
+  /** Side Deck copies count toward each card's banlist limit too. */
+  sideDeck: Card[];
+  considerations: Card[];
+  handSize: number;
+  roles: CardRoleMap;
+  banlist: Banlist;
+}
+
+type CopyRange = { min: number; max: number };
+
+const TOP_CONFIGURATIONS = 10;
+
+export const RatioTuner: React.FC<RatioTunerProps> = ({ deck, sideDeck, considerations, handSize, roles, banlist }) => {
+  const [deckSize, setDeckSize] = useState(deck.length);
+  const [ranges, setRanges] = useState<Record<string, CopyRange>>({});
+  const [targets, setTargets] = useState<Record<CardRole, CopyRange>>({
+    starter: { min: 1, max: handSize },
+    extender: { min: 0, max: handSize },
+    handtrap: { min: 1, max: handSize },
+    brick: { min: 0, max: handSize },
+    garnet: { min: 0, max: handSize }
+  });
+  const [result, setResult] = useState<RatioTuningResult | null>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+
+  // Deck cards first, then considerations not already in the deck
+  const pool = useMemo(() => {
+    const entries = new Map<string, { card: Card; copies: number }>();
+    deck.forEach(c => {
+      const entry = entries.get(c.name);
+      if (entry) entry.copies++;
+      else entries.set(c.name, { card: c, copies: 1 });
+    });
+    considerations.forEach(c => { if (!entries.has(c.name)) entries.set(c.name, { card: c, copies: 0 }); });
+    return Array.from(entries.values());
+  }, [deck, considerations]);
+
+  useEffect(() => setDeckSize(deck.length), [deck]);
+
+  useEffect(() => {
+    cancelMathTask('ratios');
+    setProgress(null);
+    setResult(null);
+  }, [pool, ranges, targets, deckSize, handSize, roles, sideDeck, banlist]);
+
+  useEffect(() => () => cancelMathTask('ratios'), []);
+
+  // Main Deck copies the banlist still allows once the Side Deck's copies are counted
+  const getLimit = (card: Card) => Math.max(0, getCopyLimit(card, banlist) - sideDeck.filter(c => c.name === card.name).length);
+
+  const clampRange = (card: Card, range: CopyRange): CopyRange => {
+    const limit = getLimit(card);
+    return { min: Math.min(range.min, limit), max: Math.min(Math.max(range.min, range.max), limit) };
+  };
+
+  // Clamped on read as well, so a card limited after its range was set is still searched legally
+  const getRange = (card: Card, copies: number): CopyRange => clampRange(card, ranges[card.name] || { min: copies, max: copies });
+
+  const updateRange = (card: Card, copies: number, updates: Partial<CopyRange>) => {
+    setRanges({ ...ranges, [card.name]: clampRange(card, { ...getRange(card, copies), ...updates }) });
+  };
+
+  const candidates: RatioCandidate[] = pool.map(({ card, copies }) => {
+    const range = getRange(card, copies);
+    return { card: { id: card.name, name: card.name, copies: range.max, groupIds: roles[card.name] || [] }, minCopies: range.min, maxCopies: range.max };
+  });
+
+  // Only roles with a real constraint take part, which keeps the search small
+  const groups: HyperGroup[] = CARD_ROLES
+    .filter(role => targets[role.id].min > 0 || targets[role.id].max < handSize)
+    .map(role => ({ id: role.id, name: role.label, minDesired: targets[role.id].min, maxDesired: targets[role.id].max }));
+
+  const minimumCopies = candidates.reduce((acc, c) => acc + c.minCopies, 0);
+
+  const runTuner = () => {
+    setProgress(0);
+    runMathTask('ratios', { kind: 'ratios', deckSize, handSize, groups, candidates, topCount: TOP_CONFIGURATIONS }, setProgress)
+      .then(tuned => {
+        setProgress(null);
+        setResult(tuned);
+      })
+      .catch(handleMathTaskError);
+  };
+
+  const describeChanges = (copies: number[]) => {
+    const changes = pool
+      .map(({ card, copies: current }, i) => ({ name: card.name, delta: copies[i] - current }))
+      .filter(c => c.delta !== 0)
+      .map(c => `${c.delta > 0 ? '+' : ''}${c.delta} ${c.name}`);
+    return changes.length > 0 ? changes.join(', ') : 'Current ratios';
+  };
+
+  return (
+    <div className="bg-slate-800/50 rounded-xl border border-slate-700 p-5 space-y-4">
+      <div>
+        <h2 className="text-lg font-bold text-white">Ratio Tuner</h2>
+        <p className="text-[10px] text-slate-500">Searches copy counts within each card's range (capped by the banlist) for the ratios most likely to open every role target. Unused slots are filled with untagged cards.</p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <h3 className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Role Targets</h3>
+          {CARD_ROLES.map(role => (
+            <div key={role.id} className="flex items-center gap-2 text-[10px] text-slate-500 uppercase">
+              <span className="w-20 font-bold text-slate-300">{role.label}</span>
+              <label>Min</label>
+              <input type="number" min={0} value={targets[role.id].min} onChange={(e) => setTargets({ ...targets, [role.id]: { ...targets[role.id], min: parseInt(e.target.value) || 0 } })} className="w-12 bg-slate-800 text-white text-xs rounded p-1 border border-slate-700" />
+              <label>Max</label>
+              <input type="number" min={0} value={targets[role.id].max} onChange={(e) => setTargets({ ...targets, [role.id]: { ...targets[role.id], max: parseInt(e.target.value) || 0 } })} className="w-12 bg-slate-800 text-white text-xs rounded p-1 border border-slate-700" />
+            </div>
+          ))}
+          <div className="flex items-center gap-2 pt-2 text-[10px] text-slate-500 uppercase">
+            <label className="w-20 font-bold text-slate-300">Deck Size</label>
+            <input type="number" min={40} max={60} value={deckSize || ''} onChange={(e) => setDeckSize(Math.min(60, parseInt(e.target.value) || 0))} className="w-16 bg-slate-800 text-white text-xs rounded p-1 border border-slate-700" />
+          </div>
+        </div>
+        <div className="space-y-1 max-h-72 overflow-y-auto pr-1">
+          <h3 className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Copy Ranges</h3>
+          {pool.map(({ card, copies }) => {
+            const range = getRange(card, copies);
+            return (
+              <div key={card.name} className="flex items-center gap-2 text-xs">
+                <span className={`flex-1 truncate ${(roles[card.name] || []).length > 0 ? 'text-slate-300' : 'text-slate-600'}`} title={card.name}>{card.name}</span>
+                <input type="number" min={0} max={getLimit(card)} value={range.min} onChange={(e) => updateRange(card, copies, { min: parseInt(e.target.value) || 0 })} className="w-12 bg-slate-800 text-white text-xs rounded p-1 border border-slate-700" />
+                <span className="text-slate-600">–</span>
+                <input type="number" min={0} max={getLimit(card)} value={range.max} onChange={(e) => updateRange(card, copies, { max: parseInt(e.target.value) || 0 })} className="w-12 bg-slate-800 text-white text-xs rounded p-1 border border-slate-700" />
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="flex items-center gap-3">
+        <button onClick={runTuner} disabled={groups.length === 0 || minimumCopies > deckSize || progress !== null} className="px-4 py-2 bg-emerald-600 hover:bg-emerald-500 disabled:opacity-40 text-white text-[10px] font-bold rounded uppercase tracking-widest">Tune</button>
+        {minimumCopies > deckSize && <span className="text-[10px] text-red-400">Minimum copies ({minimumCopies}) exceed the deck size.</span>}
+      </div>
+
+      {progress !== null && (
+        <div className="w-full h-1.5 bg-slate-900 rounded-full overflow-hidden">
+          <div className="h-full bg-emerald-500 transition-all" style={{ width: `${Math.round(progress * 100)}%` }}></div>
+        </div>
+      )}
+
+      {result && (
+        <div className="space-y-2">
+          <div className="text-[10px] text-slate-500">{result.evaluated.toLocaleString()} distinct ratios evaluated.</div>
+          {result.configurations.map((config, i) => (
+            <div key={i} className={`flex items-center gap-3 p-2 rounded-lg border text-xs ${i === 0 ? 'border-emerald-500/30 bg-emerald-950/10' : 'border-slate-700/50'}`}>
+              <div className="w-16 text-right font-black text-emerald-400" title={formatOneIn(config.probability)}>{formatProbability(config.probability, 2)}</div>
+              <div className="flex-1 text-slate-300">{describeChanges(config.copies)}</div>
+              <div className="text-[10px] text-slate-500 shrink-0">{groups.map((g, j) => `${config.groupCounts[j]} ${g.name}`).join(' • ')}</div>
+            </div>
+          ))}
+          {result.configurations.length === 0 && <p className="text-slate-600 italic text-[10px]">No configuration fits in the deck.</p>}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,103 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Card, CardRole, CardRoleMap } from '../types';
+import { formatProbability, formatOneIn } from '../services/mathUtils';
+import { CARD_ROLES, RoleReport, buildRoleCards } from '../services/roleAnalysis';
+import { runMathTask, cancelMathTask, handleMathTaskError } from '../services/mathClient';
+
+interface RoleReportPanelProps {
+  deck: Card[];
+  sideDeck: Card[];
+  handSize: number;
+  roles: CardRoleMap;
+  setRoles: React.Dispatch<React.SetStateAction<CardRoleMap>>;
+}
+
+const ROLE_STYLES: Record<CardRole, string> = {
+  starter: 'bg-emerald-900/40 text-emerald-300 border-emerald-700',
+  extender: 'bg-cyan-900/40 text-cyan-300 border-cyan-700',
+  handtrap: 'bg-purple-900/40 text-purple-300 border-purple-700',
+  brick: 'bg-red-900/40 text-red-300 border-red-700',
+  garnet: 'bg-amber-900/40 text-amber-300 border-amber-700'
+};
+
+export const RoleReportPanel: React.FC<RoleReportPanelProps> = ({ deck, sideDeck, handSize, roles, setRoles }) => {
+  const [report, setReport] = useState<RoleReport | null>(null);
+
+  // Side deck cards can be tagged ahead of time so the report stays complete after swaps
+  const entries = useMemo(() => {
+    const counts = new Map<string, { card: Card; main: number }>();
+    [...deck, ...sideDeck].forEach(c => { if (!counts.has(c.name)) counts.set(c.name, { card: c, main: 0 }); });
+    deck.forEach(c => { counts.get(c.name)!.main++; });
+    return Array.from(counts.values()).sort((a, b) => (b.main > 0 ? 1 : 0) - (a.main > 0 ? 1 : 0) || a.card.name.localeCompare(b.card.name));
+  }, [deck, sideDeck]);
+
+  useEffect(() => {
+    if (deck.length === 0 || handSize <= 0 || handSize > deck.length) {
+      cancelMathTask('roleReport');
+      setReport(null);
+      return;
+    }
+    runMathTask('roleReport', { kind: 'roleReport', deckSize: deck.length, handSize, cards: buildRoleCards(deck, roles) })
+      .then(setReport)
+      .catch(handleMathTaskError);
+  }, [deck, handSize, roles]);
+
+  useEffect(() => () => cancelMathTask('roleReport'), []);
+
+  const toggleRole = (name: string, role: CardRole) => {
+    setRoles(prev => {
+      const current = prev[name] || [];
+      const next = current.includes(role) ? current.filter(r => r !== role) : [...current, role];
+      const { [name]: _, ...rest } = prev;
+      return next.length > 0 ? { ...rest, [name]: next } : rest;
+    });
+  };
+
+  return (
+    <div className="bg-slate-800/50 rounded-xl border border-slate-700 p-5 space-y-4">
+      <div>
+        <h2 className="text-lg font-bold text-white">Hand Roles</h2>
+        <p className="text-[10px] text-slate-500">Tag each card's role to get an opening-hand report for the current main deck. Garnets count as bricks.</p>
+      </div>
+
+      {report && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-center">
+          <div className="p-3 bg-slate-900 rounded-lg border border-emerald-500/20" title={formatOneIn(report.starterHit)}>
+            <div className="text-2xl font-black text-emerald-400">{formatProbability(report.starterHit, 1)}</div>
+            <div className="text-[10px] text-slate-500 uppercase font-bold">1+ Starter ({report.counts.starter})</div>
+          </div>
+          <div className="p-3 bg-slate-900 rounded-lg border border-red-500/20" title={formatOneIn(report.allBrick)}>
+            <div className="text-2xl font-black text-red-400">{formatProbability(report.allBrick, 1)}</div>
+            <div className="text-[10px] text-slate-500 uppercase font-bold">All-Brick Hand ({report.counts.brick + report.counts.garnet})</div>
+          </div>
+          <div className="p-3 bg-slate-900 rounded-lg border border-amber-500/20" title={formatOneIn(report.garnetDrawn)}>
+            <div className="text-2xl font-black text-amber-400">{formatProbability(report.garnetDrawn, 1)}</div>
+            <div className="text-[10px] text-slate-500 uppercase font-bold">Garnet Drawn ({report.counts.garnet})</div>
+          </div>
+          <div className="p-3 bg-slate-900 rounded-lg border border-purple-500/20">
+            <div className="text-2xl font-black text-purple-400">{report.expectedHandTraps.toFixed(2)}</div>
+            <div className="text-[10px] text-slate-500 uppercase font-bold">Hand Traps / Hand ({report.counts.handtrap})</div>
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-1 max-h-96 overflow-y-auto pr-1">
+        {entries.map(({ card, main }) => (
+          <div key={card.name} className={`flex items-center gap-2 p-1.5 rounded border border-slate-700/50 ${main === 0 ? 'opacity-50' : ''}`}>
+            <img src={card.card_images[0].image_url_small} alt={card.name} className="w-6 aspect-[2/3] object-cover rounded" />
+            <span className="flex-1 text-xs text-slate-300 truncate" title={card.name}>{card.name}</span>
+            <span className="text-[10px] text-slate-500 font-mono w-6 text-right">{main > 0 ? `x${main}` : 'side'}</span>
+            <div className="flex gap-1">
+              {CARD_ROLES.map(role => {
+                const active = (roles[card.name] || []).includes(role.id);
+                return (
+                  <button key={role.id} onClick={() => toggleRole(card.name, role.id)} className={`px-1.5 py-0.5 rounded border text-[9px] font-bold uppercase ${active ? ROLE_STYLES[role.id] : 'border-slate-700 text-slate-600 hover:text-slate-400'}`}>{role.label}</button>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
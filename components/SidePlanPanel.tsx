@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import { Archetype, Card, SideCardCount, SidePlan } from '../types';
+import { createSidePlan, describeSidePlanIssue, getSideCardTotal, validateSidePlan } from '../services/sidePlans';
+import { resolveMatchup } from '../services/archetypes';
+
+interface SidePlanPanelProps {
+  /** The deck as loaded, before any siding. Plans are checked and applied against it. */
+  main: Card[];
+  side: Card[];
+  plans: SidePlan[];
+  setPlans: React.Dispatch<React.SetStateAction<SidePlan[]>>;
+  archetypes: Archetype[];
+  appliedPlanId: string | null;
+  onApply: (plan: SidePlan) => void;
+}
+
+const uniqueNames = (cards: Card[]) => Array.from(new Set(cards.map(c => c.name))).sort();
+
+export const SidePlanPanel: React.FC<SidePlanPanelProps> = ({ main, side, plans, setPlans, archetypes, appliedPlanId, onApply }) => {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const sorted = [...plans].sort((a, b) =>
+    resolveMatchup(a.matchup, archetypes).localeCompare(resolveMatchup(b.matchup, archetypes)) || a.playOrder.localeCompare(b.playOrder) || a.name.localeCompare(b.name));
+
+  const updatePlan = (id: string, updates: Partial<SidePlan>) => {
+    setPlans(prev => prev.map(p => p.id === id ? { ...p, ...updates } : p));
+  };
+
+  const addPlan = () => {
+    const created = createSidePlan(`Plan ${plans.length + 1}`, '', 'second');
+    setPlans(prev => [...prev, created]);
+    setExpandedId(created.id);
+  };
+
+  // Same swaps for the other play order, as a starting point to adjust
+  const copyForOtherOrder = (plan: SidePlan) => {
+    const playOrder = plan.playOrder === 'first' ? 'second' : 'first';
+    const copy = { ...createSidePlan(`${plan.name} (${playOrder === 'first' ? '1st' : '2nd'})`, plan.matchup, playOrder), cardsIn: plan.cardsIn, cardsOut: plan.cardsOut };
+    setPlans(prev => [...prev, copy]);
+    setExpandedId(copy.id);
+  };
+
+  const renderCounts = (plan: SidePlan, section: 'cardsIn' | 'cardsOut', pool: Card[]) => {
+    const counts = plan[section];
+    const setCounts = (next: SideCardCount[]) => updatePlan(plan.id, { [section]: next.filter(c => c.count > 0) });
+    const available = uniqueNames(pool).filter(name => !counts.some(c => c.name === name));
+    return (
+      <div className="space-y-1">
+        <h4 className={`text-[10px] font-bold uppercase ${section === 'cardsIn' ? 'text-emerald-400' : 'text-red-400'}`}>{section === 'cardsIn' ? 'In (from Side)' : 'Out (from Main)'} • {getSideCardTotal(counts)}</h4>
+        {counts.map(c => (
+          <div key={c.name} className="flex items-center gap-2 text-xs">
+            <input type="number" min={0} max={3} value={c.count} onChange={(e) => setCounts(counts.map(x => x.name === c.name ? { ...x, count: parseInt(e.target.value) || 0 } : x))} className="w-12 bg-slate-800 text-white text-xs rounded p-1 border border-slate-700" />
+            <span className="flex-1 truncate text-slate-300" title={c.name}>{c.name}</span>
+          </div>
+        ))}
+        {available.length > 0 && (
+          <select value="" onChange={(e) => e.target.value && setCounts([...counts, { name: e.target.value, count: 1 }])} className="w-full bg-slate-800 text-white text-[10px] rounded p-1 border border-slate-700">
+            <option value="">+ Card…</option>
+            {available.map(name => <option key={name} value={name}>{name}</option>)}
+          </select>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-slate-800/50 rounded-xl border border-slate-700 p-5 space-y-4">
+      <div className="flex justify-between items-start gap-4">
+        <div>
+          <h2 className="text-lg font-bold text-white">Side Plans</h2>
+          <p className="text-[10px] text-slate-500">Saved swaps per matchup and play order, checked against the deck as loaded. Applying a plan resets any earlier siding first.</p>
+        </div>
+        <button onClick={addPlan} className="px-3 py-1.5 bg-cyan-600 hover:bg-cyan-500 text-white text-[10px] font-bold rounded uppercase shrink-0">+ Plan</button>
+      </div>
+
+      <datalist id="side-plan-archetypes">
+        {archetypes.map(a => <option key={a.id} value={a.name} />)}
+      </datalist>
+
+      <div className="space-y-2">
+        {sorted.map(plan => {
+          const issues = validateSidePlan(plan, main, side);
+          const isExpanded = expandedId === plan.id;
+          const isApplied = appliedPlanId === plan.id;
+          return (
+            <div key={plan.id} className={`p-3 rounded-lg border ${isApplied ? 'border-emerald-500/40 bg-emerald-950/10' : 'border-slate-700 bg-slate-900/50'}`}>
+              <div className="flex items-center gap-2">
+                <button onClick={() => setExpandedId(isExpanded ? null : plan.id)} className="flex-1 min-w-0 text-left">
+                  <div className="text-sm font-bold text-white truncate">{plan.name || 'Unnamed Plan'}</div>
+                  <div className="text-[10px] text-slate-500 uppercase font-bold">
+                    {resolveMatchup(plan.matchup, archetypes) || 'Any matchup'} • Going {plan.playOrder === 'first' ? '1st' : '2nd'} • +{getSideCardTotal(plan.cardsIn)} / -{getSideCardTotal(plan.cardsOut)}
+                    {issues.length > 0 && <span className="text-red-400"> • {issues.length} issue{issues.length > 1 ? 's' : ''}</span>}
+                  </div>
+                </button>
+                <button onClick={() => onApply(plan)} disabled={issues.length > 0 || plan.cardsIn.length === 0} className="px-3 py-1.5 bg-emerald-600 hover:bg-emerald-500 disabled:opacity-30 text-white text-[10px] font-bold rounded uppercase">{isApplied ? 'Applied' : 'Apply'}</button>
+              </div>
+
+              {isExpanded && (
+                <div className="mt-3 space-y-3">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <input type="text" value={plan.name} onChange={(e) => updatePlan(plan.id, { name: e.target.value })} placeholder="Plan name" className="flex-1 min-w-0 bg-slate-800 text-white text-xs rounded p-1.5 border border-slate-700" />
+                    <input type="text" value={plan.matchup} onChange={(e) => updatePlan(plan.id, { matchup: e.target.value })} list="side-plan-archetypes" placeholder="Matchup" className="flex-1 min-w-0 bg-slate-800 text-white text-xs rounded p-1.5 border border-slate-700" />
+                    <div className="flex gap-1">
+                      <button onClick={() => updatePlan(plan.id, { playOrder: 'first' })} className={`px-2 py-1 rounded text-[10px] font-bold uppercase ${plan.playOrder === 'first' ? 'bg-cyan-600 text-white' : 'bg-slate-700 text-slate-400'}`}>1st</button>
+                      <button onClick={() => updatePlan(plan.id, { playOrder: 'second' })} className={`px-2 py-1 rounded text-[10px] font-bold uppercase ${plan.playOrder === 'second' ? 'bg-amber-600 text-white' : 'bg-slate-700 text-slate-400'}`}>2nd</button>
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    {renderCounts(plan, 'cardsIn', side)}
+                    {renderCounts(plan, 'cardsOut', main)}
+                  </div>
+                  {issues.length > 0 && (
+                    <ul className="text-[10px] text-red-400 space-y-0.5">
+                      {issues.map((issue, i) => <li key={i}>{describeSidePlanIssue(issue)}</li>)}
+                    </ul>
+                  )}
+                  <div className="flex justify-end gap-3 text-[10px] font-bold uppercase">
+                    <button onClick={() => copyForOtherOrder(plan)} className="text-slate-400 hover:text-white">Copy for {plan.playOrder === 'first' ? '2nd' : '1st'}</button>
+                    <button onClick={() => setPlans(prev => prev.filter(p => p.id !== plan.id))} className="text-slate-500 hover:text-red-400">Delete</button>
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+        {plans.length === 0 && <p className="text-slate-600 italic text-[10px]">No saved plans. Build one here or save a manual swap from the side deck mode.</p>}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,198 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { TournamentReport } from '../types';
+import { EventPhase, SwissEntrant, SwissSimulationResult, getMatchPoints, getOpponentMatchWinPercentage, getTotalRounds } from '../services/swissSimulation';
+import { formatPercent } from '../services/mathUtils';
+import { getOverallRecord } from '../services/tournamentStats';
+import { runMathTask, cancelMathTask, handleMathTaskError } from '../services/mathClient';
+
+interface SwissSimulatorProps {
+  players: number;
+  rounds: number;
+  topCut: number;
+  /** Logged rounds from the Tournament Tracker; once every round is logged the user is placed against the field. */
+  reports: TournamentReport[];
+}
+
+// A typical large event: X-2 or better on Day 1 plays Day 2, then top 32
+const MULTI_DAY_TEMPLATE: EventPhase[] = [
+  { id: 'day-1', name: 'Day 1', rounds: 9, cut: { type: 'points', value: 21 } },
+  { id: 'day-2', name: 'Day 2', rounds: 6, cut: { type: 'rank', value: 32 } }
+];
+
+export const SwissSimulator: React.FC<SwissSimulatorProps> = ({ players, rounds, topCut, reports }) => {
+  const [isMultiDay, setIsMultiDay] = useState(false);
+  const [customPhases, setCustomPhases] = useState<EventPhase[]>(MULTI_DAY_TEMPLATE);
+  const [drawRate, setDrawRate] = useState(5);
+  const [idRounds, setIdRounds] = useState(1);
+  const [iterations, setIterations] = useState(1000);
+  const [seed, setSeed] = useState(1);
+  const [result, setResult] = useState<SwissSimulationResult | null>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+
+  // Without a multi-day structure the event is the flat Swiss from the calculator above
+  const phases = useMemo((): EventPhase[] => isMultiDay
+    ? customPhases
+    : [{ id: 'swiss', name: 'Swiss', rounds, cut: { type: 'rank', value: topCut } }], [isMultiDay, customPhases, rounds, topCut]);
+  const totalRounds = getTotalRounds(phases);
+
+  const entrant = useMemo((): SwissEntrant | undefined => {
+    const record = getOverallRecord(reports);
+    if (record.matches !== totalRounds) return undefined;
+    const opponents = reports.flatMap(r => r.opponentRecord ? [r.opponentRecord] : []);
+    return { points: getMatchPoints(record), omw: getOpponentMatchWinPercentage(opponents) };
+  }, [reports, totalRounds]);
+
+  useEffect(() => {
+    cancelMathTask('swiss');
+    setProgress(null);
+    setResult(null);
+  }, [players, phases, drawRate, idRounds, entrant]);
+
+  useEffect(() => () => cancelMathTask('swiss'), []);
+
+  const updatePhase = (id: string, updates: Partial<EventPhase>) => {
+    setCustomPhases(customPhases.map(p => p.id === id ? { ...p, ...updates } : p));
+  };
+
+  const addPhase = () => {
+    setCustomPhases([...customPhases, { id: Date.now().toString(), name: `Phase ${customPhases.length + 1}`, rounds: 3, cut: { type: 'rank', value: 8 } }]);
+  };
+
+  const runSimulation = () => {
+    setProgress(0);
+    runMathTask('swiss', {
+      kind: 'swiss',
+      config: { players, phases, drawRate: drawRate / 100, idRounds },
+      iterations,
+      seed,
+      entrant
+    }, setProgress)
+      .then(simulated => {
+        setProgress(null);
+        setResult(simulated);
+      })
+      .catch(handleMathTaskError);
+  };
+
+  const isValid = players >= 2 && phases.length > 0 && phases.every(p => p.rounds > 0 && p.cut.value > 0) && iterations > 0;
+
+  return (
+    <div className="bg-slate-800 rounded-xl border border-slate-700 p-6 space-y-4">
+      <div className="flex justify-between items-start gap-4">
+        <div>
+          <h2 className="text-lg font-bold text-white">Event Simulation</h2>
+          <p className="text-[10px] text-slate-500">Pairs {players} players by points each round (byes to the lowest unbyed player, draws worth 1 point) and applies each phase's cut on points, OMW then OOMW. Points carry over between phases. Players safe through the cut take intentional draws in each phase's final ID rounds. With all {totalRounds} rounds finished in the Tournament Tracker, your own finish is placed against each simulated field.</p>
+        </div>
+        <button onClick={() => setIsMultiDay(!isMultiDay)} className={`px-3 py-1.5 rounded text-[10px] font-bold uppercase shrink-0 ${isMultiDay ? 'bg-cyan-600 text-white' : 'bg-slate-700 text-slate-400'}`}>Multi-Day</button>
+      </div>
+
+      {isMultiDay && (
+        <div className="space-y-2">
+          {customPhases.map((phase, i) => (
+            <div key={phase.id} className="flex flex-wrap items-center gap-2 p-3 bg-slate-900/50 rounded-lg border border-slate-700 text-[10px] text-slate-500 uppercase">
+              <input type="text" value={phase.name} onChange={(e) => updatePhase(phase.id, { name: e.target.value })} className="w-24 bg-transparent border-b border-slate-700 outline-none text-white text-sm font-medium normal-case" />
+              <label>Rounds</label>
+              <input type="number" min={1} value={phase.rounds || ''} onChange={(e) => updatePhase(phase.id, { rounds: parseInt(e.target.value) || 0 })} className="w-14 bg-slate-800 text-white text-sm rounded p-1 border border-slate-700" />
+              <label>{i === customPhases.length - 1 ? 'Top Cut' : 'Advance'}</label>
+              <select value={phase.cut.type} onChange={(e) => updatePhase(phase.id, { cut: { ...phase.cut, type: e.target.value as EventPhase['cut']['type'] } })} className="bg-slate-800 text-white text-xs rounded p-1 border border-slate-700">
+                <option value="points">Points ≥</option>
+                <option value="rank">Top</option>
+              </select>
+              <input type="number" min={1} value={phase.cut.value || ''} onChange={(e) => updatePhase(phase.id, { cut: { ...phase.cut, value: parseInt(e.target.value) || 0 } })} className="w-16 bg-slate-800 text-white text-sm rounded p-1 border border-slate-700" />
+              {customPhases.length > 1 && <button onClick={() => setCustomPhases(customPhases.filter(p => p.id !== phase.id))} className="ml-auto font-bold hover:text-red-400">Remove</button>}
+            </div>
+          ))}
+          <button onClick={addPhase} className="text-[10px] font-bold text-cyan-500 hover:text-cyan-400 uppercase">+ Phase</button>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-end gap-3">
+        <div>
+          <label className="text-[10px] text-slate-500 uppercase block mb-1">Draw %</label>
+          <input type="number" min={0} max={100} value={drawRate} onChange={(e) => setDrawRate(Math.min(100, parseFloat(e.target.value) || 0))} className="w-20 bg-slate-700 text-white text-sm rounded p-1.5 border border-slate-600" />
+        </div>
+        <div>
+          <label className="text-[10px] text-slate-500 uppercase block mb-1">ID Rounds</label>
+          <input type="number" min={0} value={idRounds} onChange={(e) => setIdRounds(Math.max(0, parseInt(e.target.value) || 0))} className="w-20 bg-slate-700 text-white text-sm rounded p-1.5 border border-slate-600" />
+        </div>
+        <div>
+          <label className="text-[10px] text-slate-500 uppercase block mb-1">Events</label>
+          <input type="number" min={100} step={500} value={iterations || ''} onChange={(e) => setIterations(Math.min(20000, parseInt(e.target.value) || 0))} className="w-24 bg-slate-700 text-white text-sm rounded p-1.5 border border-slate-600" />
+        </div>
+        <div>
+          <label className="text-[10px] text-slate-500 uppercase block mb-1">Seed</label>
+          <div className="flex gap-1">
+            <input type="number" value={seed} onChange={(e) => setSeed(parseInt(e.target.value) || 0)} className="w-24 bg-slate-700 text-white text-sm rounded p-1.5 border border-slate-600" />
+            <button onClick={() => setSeed(Math.floor(Math.random() * 1_000_000_000))} className="px-2 bg-slate-700 hover:bg-slate-600 text-slate-300 text-[10px] font-bold rounded uppercase">Random</button>
+          </div>
+        </div>
+        <button onClick={runSimulation} disabled={!isValid || progress !== null} className="px-4 py-2 bg-emerald-600 hover:bg-emerald-500 disabled:opacity-40 text-white text-[10px] font-bold rounded uppercase tracking-widest">Simulate</button>
+      </div>
+
+      {progress !== null && (
+        <div className="w-full h-1.5 bg-slate-900 rounded-full overflow-hidden">
+          <div className="h-full bg-emerald-500 transition-all" style={{ width: `${Math.round(progress * 100)}%` }}></div>
+        </div>
+      )}
+
+      {result && (
+        <div className="space-y-6">
+          {entrant && result.entrantCutChance !== null && (
+            <div className="p-4 bg-emerald-950/20 rounded-lg border border-emerald-500/20 flex justify-between items-center">
+              <div>
+                <div className="text-[10px] text-slate-500 uppercase font-bold">Your Finish • {entrant.points} pts</div>
+                <div className="text-xs text-slate-400">{entrant.omw !== null ? `OMW ${formatPercent(entrant.omw * 100, 1)} from ${reports.filter(r => r.opponentRecord).length} opponent records` : 'No opponent records logged, tiebreakers treated as a coin flip'}</div>
+              </div>
+              <div className="text-3xl font-black text-emerald-400">{formatPercent(result.entrantCutChance, 1)}</div>
+            </div>
+          )}
+          {result.phases.map((phase, phaseIndex) => {
+            const isFinal = phaseIndex === result.phases.length - 1;
+            const cutRecords = phase.records.filter(r => r.inCut > 0);
+            return (
+              <div key={phaseIndex} className="space-y-3">
+                <div className="flex justify-between items-baseline">
+                  <h3 className="text-sm font-bold text-white uppercase tracking-wider">{phases[phaseIndex]?.name}</h3>
+                  <span className="text-[10px] text-slate-500">{phase.entrants.toFixed(1)} players • {phase.advancing.toFixed(1)} {isFinal ? 'make the cut' : 'advance'}</span>
+                </div>
+                {phase.cutLine.length > 0 && (
+                  <div className="flex flex-wrap gap-2">
+                    {phase.cutLine.map(line => (
+                      <div key={line.points} className="px-3 py-2 bg-slate-900 rounded-lg border border-slate-700 text-center">
+                        <div className="text-lg font-black text-emerald-400">{formatPercent(line.frequency, 1)}</div>
+                        <div className="text-[10px] text-slate-500 uppercase font-bold">Cut at {line.points} pts • OMW {formatPercent(line.averageOmw * 100, 1)}</div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                <div className="bg-slate-900/50 rounded-lg border border-slate-700 overflow-hidden text-center">
+                  <div className={`grid ${isFinal ? 'grid-cols-5' : 'grid-cols-6'} gap-2 p-3 border-b border-slate-700 text-[10px] font-bold text-slate-500 uppercase`}>
+                    <div>W-L-D</div>
+                    <div>Points</div>
+                    <div>Avg Players</div>
+                    <div>Avg {isFinal ? 'In Cut' : 'Advancing'}</div>
+                    <div>{isFinal ? 'Cut Rate' : 'Advance'}</div>
+                    {!isFinal && <div>Final Cut</div>}
+                  </div>
+                  <div className="divide-y divide-slate-700/50 max-h-96 overflow-y-auto">
+                    {cutRecords.map(record => (
+                      <div key={`${record.wins}-${record.losses}-${record.draws}`} className={`grid ${isFinal ? 'grid-cols-5' : 'grid-cols-6'} gap-2 p-2 text-xs`}>
+                        <div className="font-mono text-slate-300">{record.wins}-{record.losses}-{record.draws}</div>
+                        <div className="text-slate-400">{record.points}</div>
+                        <div className="text-slate-400">{record.players.toFixed(1)}</div>
+                        <div className="text-slate-300">{record.inCut.toFixed(1)}</div>
+                        <div className={`font-bold ${record.cutRate >= 100 ? 'text-emerald-400' : 'text-amber-400'}`}>{formatPercent(record.cutRate, 1)}</div>
+                        {!isFinal && <div className="font-bold text-cyan-400">{formatPercent(record.finalCutRate, 1)}</div>}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+          <div className="text-[10px] text-slate-500">{result.iterations.toLocaleString()} simulated events (seed {seed}). Only records that got through each cut are listed.</div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { TournamentEvent } from '../types';
+import { createTournament } from '../services/tournamentLibrary';
+import { getOverallRecord } from '../services/tournamentStats';
+import { parseYDK } from '../services/ygoService';
+
+interface TournamentLibraryProps {
+  tournaments: TournamentEvent[];
+  setTournaments: React.Dispatch<React.SetStateAction<TournamentEvent[]>>;
+  activeId: string | null;
+  setActiveId: React.Dispatch<React.SetStateAction<string | null>>;
+  /** YDK content of the deck loaded on the Dashboard, if any. */
+  loadedYdk: string | null;
+  onLoadDeck: (ydk: string) => void;
+}
+
+export const TournamentLibrary: React.FC<TournamentLibraryProps> = ({
+  tournaments,
+  setTournaments,
+  activeId,
+  setActiveId,
+  loadedYdk,
+  onLoadDeck
+}) => {
+  const [showArchived, setShowArchived] = useState(false);
+
+  const active = tournaments.find(t => t.id === activeId) || null;
+  const archivedCount = tournaments.filter(t => t.archived).length;
+  const visible = tournaments
+    .filter(t => showArchived || !t.archived || t.id === activeId)
+    .sort((a, b) => b.date.localeCompare(a.date) || b.createdAt - a.createdAt);
+
+  const updateTournament = (id: string, updates: Partial<TournamentEvent>) => {
+    setTournaments(prev => prev.map(t => t.id === id ? { ...t, ...updates } : t));
+  };
+
+  const addTournament = () => {
+    const created = createTournament();
+    setTournaments(prev => [...prev, created]);
+    setActiveId(created.id);
+  };
+
+  const deleteTournament = (event: TournamentEvent) => {
+    if (!confirm(`Delete "${event.metadata.eventName || 'Unnamed Event'}" and its ${event.reports.length} logged rounds?`)) return;
+    const remaining = tournaments.filter(t => t.id !== event.id);
+    // The tracker always needs an event to write to
+    const next = remaining.length > 0 ? remaining : [createTournament()];
+    setTournaments(next);
+    if (event.id === activeId) setActiveId((next.find(t => !t.archived) || next[0]).id);
+  };
+
+  const snapshotCounts = (ydk: string) => {
+    const deck = parseYDK(ydk);
+    return `${deck.main.length} / ${deck.extra.length} / ${deck.side.length}`;
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-4 no-print">
+      <div className="flex justify-between items-center">
+        <h2 className="text-lg font-bold text-white">Events</h2>
+        <div className="flex gap-2">
+          {archivedCount > 0 && (
+            <button onClick={() => setShowArchived(!showArchived)} className="px-3 py-1.5 bg-slate-700 text-slate-300 text-[10px] font-bold rounded uppercase">{showArchived ? 'Hide' : 'Show'} Archived ({archivedCount})</button>
+          )}
+          <button onClick={addTournament} className="px-3 py-1.5 bg-cyan-600 hover:bg-cyan-500 text-white text-[10px] font-bold rounded uppercase">+ New Event</button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+        {visible.map(event => {
+          const record = getOverallRecord(event.reports);
+          const isActive = event.id === activeId;
+          return (
+            <div
+              key={event.id}
+              onClick={() => setActiveId(event.id)}
+              className={`p-3 rounded-lg border cursor-pointer transition-all ${isActive ? 'border-cyan-500 bg-cyan-950/20' : 'border-slate-700 bg-slate-800/40 hover:border-slate-500'} ${event.archived ? 'opacity-60' : ''}`}
+            >
+              <div className="flex justify-between items-start gap-2">
+                <div className="min-w-0">
+                  <div className="font-bold text-white text-sm truncate">{event.metadata.eventName || 'Unnamed Event'}</div>
+                  <div className="text-[10px] text-slate-500 uppercase font-bold">{event.date} • {event.format || 'No format'}</div>
+                </div>
+                <div className="text-right shrink-0">
+                  <div className="text-sm font-black text-cyan-400">{record.wins}-{record.losses}{record.draws > 0 && `-${record.draws}`}</div>
+                  {event.placement && <div className="text-[10px] text-amber-400 font-bold">{event.placement}</div>}
+                </div>
+              </div>
+              <div className="flex justify-between items-center mt-2 text-[10px] font-bold uppercase">
+                <span className="text-slate-500 truncate">{event.metadata.deckName || 'No deck'}</span>
+                <span className="flex gap-2 shrink-0">
+                  <button onClick={(e) => { e.stopPropagation(); updateTournament(event.id, { archived: !event.archived }); }} className="text-slate-500 hover:text-white">{event.archived ? 'Restore' : 'Archive'}</button>
+                  <button onClick={(e) => { e.stopPropagation(); deleteTournament(event); }} className="text-slate-500 hover:text-red-400">Delete</button>
+                </span>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {active && (
+        <div className="bg-slate-800/60 border border-slate-700 rounded-xl p-5 grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div>
+            <label className="block text-[10px] font-bold text-slate-500 uppercase mb-1.5 tracking-widest">Date</label>
+            <input type="date" value={active.date} onChange={e => updateTournament(active.id, { date: e.target.value })} className="w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-white focus:border-cyan-500 outline-none text-sm" />
+          </div>
+          <div>
+            <label className="block text-[10px] font-bold text-slate-500 uppercase mb-1.5 tracking-widest">Format</label>
+            <input type="text" value={active.format} onChange={e => updateTournament(active.id, { format: e.target.value })} placeholder="e.g. Advanced" className="w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-white focus:border-cyan-500 outline-none text-sm" />
+          </div>
+          <div>
+            <label className="block text-[10px] font-bold text-slate-500 uppercase mb-1.5 tracking-widest">Placement</label>
+            <input type="text" value={active.placement} onChange={e => updateTournament(active.id, { placement: e.target.value })} placeholder="e.g. Top 16" className="w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-white focus:border-cyan-500 outline-none text-sm" />
+          </div>
+          <div>
+            <label className="block text-[10px] font-bold text-slate-500 uppercase mb-1.5 tracking-widest">Deck Snapshot</label>
+            <div className="flex gap-1">
+              <button onClick={() => loadedYdk && updateTournament(active.id, { deckSnapshot: loadedYdk })} disabled={!loadedYdk} title="Save the deck loaded on the Dashboard" className="flex-1 py-2 bg-slate-700 hover:bg-slate-600 disabled:opacity-40 text-white text-[10px] font-bold rounded-lg uppercase">Save</button>
+              {active.deckSnapshot && <button onClick={() => onLoadDeck(active.deckSnapshot!)} title={`Main / Extra / Side: ${snapshotCounts(active.deckSnapshot)}`} className="flex-1 py-2 bg-cyan-700 hover:bg-cyan-600 text-white text-[10px] font-bold rounded-lg uppercase">Load</button>}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
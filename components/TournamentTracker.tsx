@@ -1,19 +1,39 @@
 
 import React, { useState } from 'react';
-import { TournamentReport, TournamentMetadata } from '../types';
+import { Archetype, SidePlan, TournamentReport, TournamentMetadata, GameReport, GameResult, MatchResult } from '../types';
+import { rollUpMatchResult, formatGameScore, getOverallRecord } from '../services/tournamentStats';
+import { findArchetype, resolveMatchup } from '../services/archetypes';
+import { findSidePlans } from '../services/sidePlans';
 
 interface TournamentTrackerProps {
   reports: TournamentReport[];
   setReports: React.Dispatch<React.SetStateAction<TournamentReport[]>>;
   metadata: TournamentMetadata;
   setMetadata: React.Dispatch<React.SetStateAction<TournamentMetadata>>;
+  /** Known opponent decks, suggested in the round form. */
+  archetypes: Archetype[];
+  /** Saved side plans, offered per game for the round's matchup. */
+  sidePlans: SidePlan[];
 }
 
+const RESULT_LABELS: Record<MatchResult, string> = { win: 'Win', loss: 'Loss', draw: 'Draw', unfinished: 'Unfinished' };
+
+const RESULT_STYLES: Record<MatchResult, { border: string; badge: string; text: string; button: string }> = {
+  win: { border: 'border-emerald-500/30', badge: 'bg-emerald-500 text-white', text: 'text-emerald-400', button: 'bg-emerald-600 text-white' },
+  loss: { border: 'border-red-500/30', badge: 'bg-red-500 text-white', text: 'text-red-400', button: 'bg-red-600 text-white' },
+  draw: { border: 'border-amber-500/30', badge: 'bg-amber-500 text-white', text: 'text-amber-400', button: 'bg-amber-600 text-white' },
+  unfinished: { border: 'border-slate-600', badge: 'bg-slate-600 text-white', text: 'text-slate-400', button: 'bg-slate-600 text-white' }
+};
+
+const GAME_RESULTS: GameResult[] = ['win', 'loss', 'draw'];
+
 export const TournamentTracker: React.FC<TournamentTrackerProps> = ({ 
   reports, 
   setReports, 
   metadata, 
-  setMetadata 
+  setMetadata,
+  archetypes,
+  sidePlans
 }) => {
   const [isAdding, setIsAdding] = useState(false);
   
@@ -21,17 +41,38 @@ export const TournamentTracker: React.FC<TournamentTrackerProps> = ({
   const [round, setRound] = useState(reports.length + 1);
   const [matchup, setMatchup] = useState('');
   const [wonDiceRoll, setWonDiceRoll] = useState(true);
-  const [result, setResult] = useState<'win' | 'loss'>('win');
+  const [result, setResult] = useState<MatchResult>('win');
+  const [games, setGames] = useState<GameReport[]>([]);
+  const [timeCalled, setTimeCalled] = useState(false);
   const [notes, setNotes] = useState('');
 
+  // The match result follows the logged games, but stays editable for corrections
+  const updateGames = (nextGames: GameReport[], nextTimeCalled = timeCalled) => {
+    setGames(nextGames);
+    setTimeCalled(nextTimeCalled);
+    if (nextGames.length > 0) setResult(rollUpMatchResult(nextGames, nextTimeCalled));
+  };
+
+  // Game 1 follows the dice roll; afterwards the loser of the last game usually goes first
+  const addGame = () => {
+    const previous = games[games.length - 1];
+    const wentFirst = previous ? previous.result === 'loss' : wonDiceRoll;
+    updateGames([...games, { wentFirst, result: 'win', opponentKeyCards: '', sidePlan: '', notes: '' }]);
+  };
+
+  const updateGame = (index: number, updates: Partial<GameReport>) => {
+    updateGames(games.map((g, i) => i === index ? { ...g, ...updates } : g));
+  };
+
   const handleAddReport = (e: React.FormEvent) => {
     e.preventDefault();
     const newReport: TournamentReport = {
       id: Date.now().toString(),
       round,
-      matchup,
+      matchup: resolveMatchup(matchup, archetypes),
       wonDiceRoll,
       result,
+      ...(games.length > 0 ? { games, timeCalled } : {}),
       notes,
       timestamp: Date.now()
     };
@@ -45,6 +86,8 @@ export const TournamentTracker: React.FC<TournamentTrackerProps> = ({
     setMatchup('');
     setWonDiceRoll(true);
     setResult('win');
+    setGames([]);
+    setTimeCalled(false);
     setNotes('');
   };
 
@@ -52,6 +95,21 @@ export const TournamentTracker: React.FC<TournamentTrackerProps> = ({
     setReports(reports.filter(r => r.id !== id));
   };
 
+  // Accepts "W-L" or "W-L-D"; anything else clears the record
+  const updateOpponentRecord = (id: string, text: string) => {
+    const match = text.trim().match(/^(\d+)\s*-\s*(\d+)(?:\s*-\s*(\d+))?$/);
+    const opponentRecord = match
+      ? { wins: parseInt(match[1]), losses: parseInt(match[2]), draws: match[3] ? parseInt(match[3]) : 0 }
+      : undefined;
+    setReports(prev => prev.map(r => r.id === id ? { ...r, opponentRecord } : r));
+  };
+
+  const formatOpponentRecord = (report: TournamentReport) =>
+    report.opponentRecord ? `${report.opponentRecord.wins}-${report.opponentRecord.losses}-${report.opponentRecord.draws}` : '';
+
+  const describeGame = (game: GameReport, index: number) =>
+    `G${index + 1} (${game.wentFirst ? 'Going 1st' : 'Going 2nd'}): ${game.result.toUpperCase()}`;
+
   const exportPDF = () => {
     window.print();
   };
@@ -65,7 +123,13 @@ export const TournamentTracker: React.FC<TournamentTrackerProps> = ({
     
     const body = reports.map(r => (
       `ROUND ${r.round}: ${r.matchup}\n` +
-      `RESULT: ${r.result.toUpperCase()} (${r.wonDiceRoll ? 'Won' : 'Lost'} Dice Roll)\n` +
+      `RESULT: ${r.result.toUpperCase()}${r.games?.length ? ` ${formatGameScore(r.games)}` : ''}${r.timeCalled ? ' (Time Called)' : ''} (${r.wonDiceRoll ? 'Won' : 'Lost'} Dice Roll)\n` +
+      (r.games || []).map((g, i) => (
+        `  ${describeGame(g, i)}\n` +
+        (g.opponentKeyCards ? `    OPPONENT KEY CARDS: ${g.opponentKeyCards}\n` : "") +
+        (g.sidePlan ? `    SIDE PLAN: ${g.sidePlan}\n` : "") +
+        (g.notes ? `    NOTES: ${g.notes}\n` : "")
+      )).join('') +
       (r.notes ? `NOTES: ${r.notes}\n` : "") +
       `\n`
     )).join(separator);
@@ -83,8 +147,12 @@ export const TournamentTracker: React.FC<TournamentTrackerProps> = ({
     const header = `**Event:** ${metadata.eventName || 'Tournament Report'}\n`;
     const subHeader = `**Deck:** ${metadata.deckName || 'N/A'}\n`;
     const record = `**Record:** ${getRecord()}\n\n`;
+    const icons: Record<MatchResult, string> = { win: '✅', loss: '❌', draw: '🤝', unfinished: '⏳' };
     const rounds = reports.map(r => 
-      `**R${r.round} vs ${r.matchup}**: ${r.result === 'win' ? '✅ WIN' : '❌ LOSS'} (${r.wonDiceRoll ? 'Won' : 'Lost'} Roll)`
+      `**R${r.round} vs ${r.matchup}**: ${icons[r.result]} ${r.result.toUpperCase()}` +
+      (r.games?.length ? ` ${formatGameScore(r.games)}${r.timeCalled ? ' (Time)' : ''}` : '') +
+      ` (${r.wonDiceRoll ? 'Won' : 'Lost'} Roll)` +
+      (r.games?.length ? `\n> ${r.games.map(g => `${g.wentFirst ? '1st' : '2nd'} ${g.result[0].toUpperCase()}`).join(' | ')}` : '')
     ).join('\n');
     
     navigator.clipboard.writeText(header + subHeader + record + rounds).then(() => {
@@ -93,9 +161,8 @@ export const TournamentTracker: React.FC<TournamentTrackerProps> = ({
   };
 
   const getRecord = () => {
-    const wins = reports.filter(r => r.result === 'win').length;
-    const losses = reports.filter(r => r.result === 'loss').length;
-    return `${wins} - ${losses}`;
+    const { wins, losses, draws } = getOverallRecord(reports);
+    return draws > 0 ? `${wins} - ${losses} - ${draws}` : `${wins} - ${losses}`;
   };
 
   return (
@@ -225,9 +292,18 @@ export const TournamentTracker: React.FC<TournamentTrackerProps> = ({
                   value={matchup} 
                   onChange={e => setMatchup(e.target.value)}
                   placeholder="e.g. Snake-Eye Fire King"
+                  list="archetype-suggestions"
                   className="w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-white focus:border-cyan-500 outline-none"
                   required
                 />
+                <datalist id="archetype-suggestions">
+                  {archetypes.flatMap(a => [a.name, ...a.aliases]).map(name => <option key={name} value={name} />)}
+                </datalist>
+                {matchup.trim() && (
+                  <div className="text-[10px] mt-1 text-slate-500">
+                    {findArchetype(matchup, archetypes) ? `Logged as ${resolveMatchup(matchup, archetypes)}` : 'Not in the archetype dictionary'}
+                  </div>
+                )}
               </div>
             </div>
 
@@ -253,23 +329,64 @@ export const TournamentTracker: React.FC<TournamentTrackerProps> = ({
               </div>
               <div>
                 <label className="block text-[10px] font-bold text-slate-500 uppercase mb-2">Match Result</label>
-                <div className="flex gap-2">
-                  <button 
-                    type="button"
-                    onClick={() => setResult('win')}
-                    className={`flex-1 py-2 rounded-lg font-bold text-[10px] uppercase transition-all ${result === 'win' ? 'bg-emerald-600 text-white' : 'bg-slate-900 text-slate-500 border border-slate-700'}`}
-                  >
-                    Win
-                  </button>
-                  <button 
-                    type="button"
-                    onClick={() => setResult('loss')}
-                    className={`flex-1 py-2 rounded-lg font-bold text-[10px] uppercase transition-all ${result === 'loss' ? 'bg-red-600 text-white' : 'bg-slate-900 text-slate-500 border border-slate-700'}`}
-                  >
-                    Loss
-                  </button>
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                  {(Object.keys(RESULT_LABELS) as MatchResult[]).map(option => (
+                    <button 
+                      key={option}
+                      type="button"
+                      onClick={() => setResult(option)}
+                      className={`py-2 rounded-lg font-bold text-[10px] uppercase transition-all ${result === option ? RESULT_STYLES[option].button : 'bg-slate-900 text-slate-500 border border-slate-700'}`}
+                    >
+                      {RESULT_LABELS[option]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex justify-between items-center">
+                <label className="block text-[10px] font-bold text-slate-500 uppercase">Games {games.length > 0 && `(${formatGameScore(games)})`}</label>
+                <div className="flex gap-3 text-[10px] font-bold uppercase">
+                  {games.length > 0 && (
+                    <button type="button" onClick={() => updateGames(games, !timeCalled)} className={timeCalled ? 'text-amber-400' : 'text-slate-500 hover:text-white'}>
+                      {timeCalled ? 'Time Called' : 'Call Time'}
+                    </button>
+                  )}
+                  <button type="button" onClick={addGame} className="text-cyan-500 hover:text-cyan-400">+ Game</button>
                 </div>
               </div>
+              {games.map((game, i) => (
+                <div key={i} className="p-3 bg-slate-900/50 rounded-lg border border-slate-700 space-y-2">
+                  <div className="flex flex-wrap items-center gap-2 text-[10px] font-bold uppercase">
+                    <span className="text-slate-300 w-12">Game {i + 1}</span>
+                    <button type="button" onClick={() => updateGame(i, { wentFirst: !game.wentFirst })} className="px-2 py-1 rounded bg-slate-800 text-cyan-400 border border-slate-700">
+                      {game.wentFirst ? 'Going 1st' : 'Going 2nd'}
+                    </button>
+                    {GAME_RESULTS.map(option => (
+                      <button key={option} type="button" onClick={() => updateGame(i, { result: option })} className={`px-2 py-1 rounded ${game.result === option ? RESULT_STYLES[option].button : 'bg-slate-800 text-slate-500 border border-slate-700'}`}>
+                        {RESULT_LABELS[option]}
+                      </button>
+                    ))}
+                    <button type="button" onClick={() => updateGames(games.filter((_, j) => j !== i))} className="ml-auto text-slate-500 hover:text-red-400">Remove</button>
+                  </div>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                    <input type="text" value={game.opponentKeyCards} onChange={e => updateGame(i, { opponentKeyCards: e.target.value })} placeholder="Opponent's key cards" className="bg-slate-900 border border-slate-700 rounded px-2 py-1.5 text-white text-xs focus:border-cyan-500 outline-none" />
+                    <div className="flex gap-1">
+                      <input type="text" value={game.sidePlan} onChange={e => updateGame(i, { sidePlan: e.target.value, sidePlanId: undefined })} placeholder={i === 0 ? 'Side plan (usually none in Game 1)' : 'Side plan used'} className="flex-1 min-w-0 bg-slate-900 border border-slate-700 rounded px-2 py-1.5 text-white text-xs focus:border-cyan-500 outline-none" />
+                      {findSidePlans(sidePlans, matchup, archetypes).length > 0 && (
+                        <select value={game.sidePlanId || ''} onChange={e => { const plan = sidePlans.find(p => p.id === e.target.value); updateGame(i, { sidePlanId: plan?.id, sidePlan: plan?.name ?? '' }); }} title="Saved side plan" className="w-24 bg-slate-900 border border-slate-700 rounded px-1 text-white text-[10px] outline-none">
+                          <option value="">Saved…</option>
+                          {findSidePlans(sidePlans, matchup, archetypes, game.wentFirst ? 'first' : 'second').map(plan => (
+                            <option key={plan.id} value={plan.id}>{plan.name} ({plan.playOrder === 'first' ? '1st' : '2nd'})</option>
+                          ))}
+                        </select>
+                      )}
+                    </div>
+                  </div>
+                  <input type="text" value={game.notes} onChange={e => updateGame(i, { notes: e.target.value })} placeholder="Game notes" className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1.5 text-white text-xs focus:border-cyan-500 outline-none" />
+                </div>
+              ))}
             </div>
 
             <div>
@@ -331,13 +448,13 @@ export const TournamentTracker: React.FC<TournamentTrackerProps> = ({
           <div 
             key={report.id} 
             className={`report-card relative bg-slate-800/60 border rounded-xl p-5 shadow-sm transition-all hover:bg-slate-800 ${
-              report.result === 'win' ? 'border-emerald-500/30' : 'border-red-500/30'
+              RESULT_STYLES[report.result].border
             }`}
           >
             <div className="flex justify-between items-start mb-4">
               <div className="flex items-center gap-4">
                 <div className={`w-10 h-10 rounded-full flex items-center justify-center font-black text-lg ${
-                   report.result === 'win' ? 'bg-emerald-500 text-white' : 'bg-red-500 text-white'
+                   RESULT_STYLES[report.result].badge
                 }`}>
                   {report.round}
                 </div>
@@ -348,25 +465,49 @@ export const TournamentTracker: React.FC<TournamentTrackerProps> = ({
                       {report.wonDiceRoll ? 'Won Dice Roll' : 'Lost Dice Roll'}
                     </span>
                     <span className="text-slate-500 no-print">•</span>
-                    <span className={
-                      report.result === 'win' ? 'text-emerald-400' : 'text-red-400'
-                    }>
+                    <span className={RESULT_STYLES[report.result].text}>
                       {report.result.toUpperCase()}
+                      {report.games?.length ? ` ${formatGameScore(report.games)}` : ''}
+                      {report.timeCalled ? ' (Time)' : ''}
                     </span>
                   </div>
                 </div>
               </div>
-              <button 
-                onClick={() => deleteReport(report.id)}
-                className="no-print p-2 text-slate-600 hover:text-red-400 transition-colors"
-                title="Delete Report"
-              >
-                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                </svg>
-              </button>
+              <div className="flex items-center gap-2">
+                <input
+                  type="text"
+                  key={formatOpponentRecord(report)}
+                  defaultValue={formatOpponentRecord(report)}
+                  onBlur={e => updateOpponentRecord(report.id, e.target.value)}
+                  placeholder="Opp. W-L-D"
+                  title="Opponent's final record, for tiebreakers"
+                  className="no-print-input w-24 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-white text-[10px] focus:border-cyan-500 outline-none"
+                />
+                <button 
+                  onClick={() => deleteReport(report.id)}
+                  className="no-print p-2 text-slate-600 hover:text-red-400 transition-colors"
+                  title="Delete Report"
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                  </svg>
+                </button>
+              </div>
             </div>
             
+            {report.games && report.games.length > 0 && (
+              <div className="space-y-1 mb-3">
+                {report.games.map((game, i) => (
+                  <div key={i} className="flex flex-wrap gap-x-3 text-xs text-slate-400">
+                    <span className={`font-bold ${RESULT_STYLES[game.result].text}`}>{describeGame(game, i)}</span>
+                    {game.opponentKeyCards && <span>Opp: {game.opponentKeyCards}</span>}
+                    {game.sidePlan && <span>Side: {game.sidePlan}</span>}
+                    {game.notes && <span className="italic">{game.notes}</span>}
+                  </div>
+                ))}
+              </div>
+            )}
+
             {report.notes && (
               <div className="notes-box bg-black/20 rounded-lg p-3 text-slate-300 text-xs italic border-l-2 border-slate-700">
                 "{report.notes}"
@@ -0,0 +1,74 @@
+import React, { useState, useEffect } from 'react';
+import { Archetype, TournamentReport } from '../types';
+import { MetagameEntry, calculateWeightedWinRate } from '../services/mathUtils';
+import { getOverallRecord, getMatchupRecords } from '../services/tournamentStats';
+import { normalizeMatchup, resolveMatchup } from '../services/archetypes';
+
+interface WinRateInputProps {
+  reports: TournamentReport[];
+  archetypes: Archetype[];
+  /** Effective win rate per round, in percent. */
+  winRate: number;
+  setWinRate: React.Dispatch<React.SetStateAction<number>>;
+}
+
+export const WinRateInput: React.FC<WinRateInputProps> = ({ reports, archetypes, winRate, setWinRate }) => {
+  const [mode, setMode] = useState<'overall' | 'metagame'>('overall');
+  const [metagame, setMetagame] = useState<MetagameEntry[]>([]);
+
+  const overall = getOverallRecord(reports);
+  const matchupRecords = getMatchupRecords(reports, archetypes);
+  const weighted = calculateWeightedWinRate(metagame);
+
+  useEffect(() => {
+    if (mode === 'metagame' && weighted !== null) setWinRate(weighted);
+  }, [mode, weighted]);
+
+  const updateEntry = (id: string, updates: Partial<MetagameEntry>) => {
+    setMetagame(metagame.map(m => m.id === id ? { ...m, ...updates } : m));
+  };
+
+  // Adds logged matchups not yet in the metagame, at their historical win rate
+  const importMatchups = () => {
+    const known = new Set(metagame.map(m => normalizeMatchup(resolveMatchup(m.archetype, archetypes))));
+    const added = matchupRecords
+      .filter(r => !known.has(normalizeMatchup(r.matchup)))
+      .map((r, i) => ({ id: `${Date.now()}-${i}`, archetype: r.matchup, share: 10, winRate: Math.round(r.winRate) }));
+    setMetagame([...metagame, ...added]);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between items-center">
+        <label className="block text-[10px] font-medium text-slate-500 uppercase">Win Rate</label>
+        <div className="flex gap-1">
+          <button onClick={() => setMode('overall')} className={`px-2 py-0.5 rounded text-[10px] font-bold uppercase ${mode === 'overall' ? 'bg-cyan-600 text-white' : 'bg-slate-700 text-slate-400'}`}>Overall</button>
+          <button onClick={() => setMode('metagame')} className={`px-2 py-0.5 rounded text-[10px] font-bold uppercase ${mode === 'metagame' ? 'bg-cyan-600 text-white' : 'bg-slate-700 text-slate-400'}`}>Metagame</button>
+        </div>
+      </div>
+
+      {mode === 'overall' ? (
+        <div className="flex gap-2">
+          <input type="number" min={0} max={100} value={Math.round(winRate * 10) / 10} onChange={(e) => setWinRate(Math.min(100, Math.max(0, parseFloat(e.target.value) || 0)))} className="w-full bg-slate-700 text-white rounded px-3 py-2 border border-slate-600" />
+          <button onClick={() => setWinRate(overall.winRate)} disabled={overall.matches === 0} className="px-2 bg-slate-700 hover:bg-slate-600 disabled:opacity-40 text-slate-300 text-[10px] font-bold rounded uppercase shrink-0" title={`${overall.wins}-${overall.losses} logged`}>From Log</button>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {metagame.map(entry => (
+            <div key={entry.id} className="flex items-center gap-1">
+              <input type="text" value={entry.archetype} onChange={(e) => updateEntry(entry.id, { archetype: e.target.value })} placeholder="Archetype" className="flex-1 min-w-0 bg-slate-700 text-white text-xs rounded p-1.5 border border-slate-600" />
+              <input type="number" min={0} value={entry.share} onChange={(e) => updateEntry(entry.id, { share: parseFloat(e.target.value) || 0 })} title="Field share %" className="w-12 bg-slate-700 text-white text-xs rounded p-1.5 border border-slate-600" />
+              <input type="number" min={0} max={100} value={entry.winRate} onChange={(e) => updateEntry(entry.id, { winRate: Math.min(100, parseFloat(e.target.value) || 0) })} title="Win rate %" className="w-12 bg-slate-700 text-white text-xs rounded p-1.5 border border-slate-600" />
+              <button onClick={() => setMetagame(metagame.filter(m => m.id !== entry.id))} className="text-slate-500 hover:text-red-400 text-xs px-1">✕</button>
+            </div>
+          ))}
+          <div className="flex gap-2 text-[10px] font-bold uppercase">
+            <button onClick={() => setMetagame([...metagame, { id: Date.now().toString(), archetype: '', share: 10, winRate: 50 }])} className="text-cyan-500 hover:text-cyan-400">+ Archetype</button>
+            {matchupRecords.length > 0 && <button onClick={importMatchups} className="text-slate-400 hover:text-white">From Log</button>}
+          </div>
+          <div className="text-[10px] text-slate-500">Share % • Win % per archetype. Weighted: <b className="text-slate-300">{weighted !== null ? `${weighted.toFixed(1)}%` : '—'}</b></div>
+        </div>
+      )}
+    </div>
+  );
+};
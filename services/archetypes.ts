@@ -0,0 +1,87 @@
+import { Archetype, TournamentReport } from '../types';
+
+/**
+ * Comparison key for an archetype or matchup name: case, punctuation and spacing are ignored,
+ * so "Snake-Eye" and "snake eye" match. Letters and digits in any script count, and a name made
+ * only of symbols keys on itself, so only a blank name has an empty key.
+ */
+export const normalizeMatchup = (matchup: string): string =>
+  matchup.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim() || matchup.trim().toLowerCase();
+
+export const createArchetype = (name: string, aliases: string[] = []): Archetype => ({
+  id: `${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+  name: name.trim(),
+  aliases,
+  cardIds: []
+});
+
+/**
+ * The archetype whose name or one of whose aliases matches the given matchup name.
+ */
+export const findArchetype = (matchup: string, archetypes: Archetype[]): Archetype | undefined => {
+  const key = normalizeMatchup(matchup);
+  if (!key) return undefined;
+  return archetypes.find(a => normalizeMatchup(a.name) === key || a.aliases.some(alias => normalizeMatchup(alias) === key));
+};
+
+/**
+ * Canonical name for a matchup: the archetype's name when known, otherwise the trimmed input.
+ */
+export const resolveMatchup = (matchup: string, archetypes: Archetype[]): string =>
+  findArchetype(matchup, archetypes)?.name ?? matchup.trim();
+
+/**
+ * Renames an archetype, keeping the old name as an alias so reports and side plans logged under it
+ * still resolve. An alias matching the new name is dropped.
+ */
+export const renameArchetype = (archetypes: Archetype[], id: string, name: string): Archetype[] => {
+  const key = normalizeMatchup(name);
+  if (!key) return archetypes;
+  return archetypes.map(a => {
+    if (a.id !== id || a.name === name.trim()) return a;
+    const aliases = a.aliases.filter(alias => normalizeMatchup(alias) !== key);
+    if (normalizeMatchup(a.name) !== key && !aliases.some(alias => normalizeMatchup(alias) === normalizeMatchup(a.name))) aliases.push(a.name);
+    return { ...a, name: name.trim(), aliases };
+  });
+};
+
+/**
+ * Folds the source archetype into the target: its name and aliases become aliases of the target
+ * and its cards are added. Reports logged under the old name keep resolving to the target.
+ */
+export const mergeArchetypes = (archetypes: Archetype[], sourceId: string, targetId: string): Archetype[] => {
+  const source = archetypes.find(a => a.id === sourceId);
+  if (!source || sourceId === targetId) return archetypes;
+  return archetypes
+    .filter(a => a.id !== sourceId)
+    .map(a => {
+      if (a.id !== targetId) return a;
+      const aliases = [...a.aliases];
+      [source.name, ...source.aliases].forEach(alias => {
+        const key = normalizeMatchup(alias);
+        if (key !== normalizeMatchup(a.name) && !aliases.some(existing => normalizeMatchup(existing) === key)) aliases.push(alias);
+      });
+      return { ...a, aliases, cardIds: Array.from(new Set([...a.cardIds, ...source.cardIds])) };
+    });
+};
+
+export interface UnlistedMatchup {
+  /** First spelling seen. */
+  name: string;
+  matches: number;
+}
+
+/**
+ * Logged matchup names that no archetype covers, most frequent first.
+ */
+export const getUnlistedMatchups = (reports: TournamentReport[], archetypes: Archetype[]): UnlistedMatchup[] => {
+  const byKey = new Map<string, UnlistedMatchup>();
+  reports.forEach(r => {
+    const key = normalizeMatchup(r.matchup);
+    if (!key || findArchetype(r.matchup, archetypes)) return;
+    const entry = byKey.get(key) || { name: r.matchup.trim(), matches: 0 };
+    entry.matches++;
+    byKey.set(key, entry);
+  });
+  return Array.from(byKey.values()).sort((a, b) => b.matches - a.matches || a.name.localeCompare(b.name));
+};
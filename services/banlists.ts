@@ -0,0 +1,116 @@
+import { BanStatus, BanlistFormat, BanlistSelection, BanlistSnapshot, Card } from '../types';
+
+type BanlistField = keyof NonNullable<Card['banlist_info']>;
+
+export const BANLIST_FORMATS: { id: BanlistFormat; label: string; field?: BanlistField }[] = [
+  { id: 'tcg', label: 'TCG', field: 'ban_tcg' },
+  { id: 'ocg', label: 'OCG', field: 'ban_ocg' },
+  { id: 'goat', label: 'GOAT', field: 'ban_goat' },
+  // Not in the card database; legality comes from a loaded snapshot only
+  { id: 'edison', label: 'Edison' }
+];
+
+export const DEFAULT_BANLIST: BanlistSelection = { format: 'tcg', snapshotId: null };
+
+const BAN_LIMITS: Record<BanStatus, number> = { 'Forbidden': 0, 'Limited': 1, 'Semi-Limited': 2 };
+
+export const MAX_COPIES = 3;
+
+/**
+ * The list legality is checked against, resolved from a selection.
+ */
+export interface Banlist {
+  format: BanlistFormat;
+  label: string;
+  /** Null when the live list is used, or when no list is available for the format. */
+  snapshot: BanlistSnapshot | null;
+  /** False when the format has no live list and no snapshot is loaded, so every card is unlimited. */
+  available: boolean;
+}
+
+const getFormat = (format: BanlistFormat) => BANLIST_FORMATS.find(f => f.id === format) ?? BANLIST_FORMATS[0];
+
+export const getSnapshotsForFormat = (snapshots: BanlistSnapshot[], format: BanlistFormat): BanlistSnapshot[] =>
+  snapshots.filter(s => s.format === format).sort((a, b) => b.date.localeCompare(a.date));
+
+/**
+ * Formats without a live list fall back to their most recent snapshot.
+ */
+export const resolveBanlist = (selection: BanlistSelection, snapshots: BanlistSnapshot[]): Banlist => {
+  const format = getFormat(selection.format);
+  const forFormat = getSnapshotsForFormat(snapshots, format.id);
+  const snapshot = forFormat.find(s => s.id === selection.snapshotId) ?? (format.field ? null : forFormat[0] ?? null);
+  return {
+    format: format.id,
+    label: snapshot ? `${format.label} ${snapshot.date}` : format.label,
+    snapshot,
+    available: !!snapshot || !!format.field
+  };
+};
+
+const isBanStatus = (value: unknown): value is BanStatus => typeof value === 'string' && value in BAN_LIMITS;
+
+export const getBanStatus = (card: Card, banlist: Banlist): BanStatus | null => {
+  if (banlist.snapshot) {
+    return banlist.snapshot.cards[card.id.toString()] ?? banlist.snapshot.cards[card.name.toLowerCase()] ?? null;
+  }
+  const field = getFormat(banlist.format).field;
+  const status = field ? card.banlist_info?.[field] : undefined;
+  return isBanStatus(status) ? status : null;
+};
+
+/**
+ * Copies of a card allowed across main, extra and side under the banlist.
+ */
+export const getCopyLimit = (card: Card, banlist: Banlist): number => {
+  const status = getBanStatus(card, banlist);
+  return status ? BAN_LIMITS[status] : MAX_COPIES;
+};
+
+const SNAPSHOT_SECTIONS: { key: string; status: BanStatus }[] = [
+  { key: 'forbidden', status: 'Forbidden' },
+  { key: 'limited', status: 'Limited' },
+  { key: 'semiLimited', status: 'Semi-Limited' }
+];
+
+/**
+ * Parses a banlist file of the form
+ * `{ "name", "format": "edison", "date": "2010-03-01", "forbidden": [...], "limited": [...], "semiLimited": [...] }`,
+ * where entries are card IDs or card names. Throws with a readable message when the file doesn't match.
+ */
+export const parseBanlistSnapshot = (content: string): BanlistSnapshot => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) throw new Error('Expected a JSON object.');
+  const raw = parsed as Record<string, unknown>;
+
+  const format = BANLIST_FORMATS.find(f => f.id === String(raw.format ?? '').toLowerCase());
+  if (!format) throw new Error(`Unknown format "${raw.format ?? ''}". Use one of: ${BANLIST_FORMATS.map(f => f.id).join(', ')}.`);
+  const date = raw.date;
+  if (typeof date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(date)) throw new Error('Expected "date" as YYYY-MM-DD.');
+
+  const cards: Record<string, BanStatus> = {};
+  SNAPSHOT_SECTIONS.forEach(({ key, status }) => {
+    const entries = raw[key] ?? [];
+    if (!Array.isArray(entries)) throw new Error(`Expected "${key}" to be a list of card IDs or names.`);
+    entries.forEach((entry: unknown) => {
+      if (typeof entry === 'number') cards[entry.toString()] = status;
+      else if (typeof entry === 'string' && /^\d+$/.test(entry.trim())) cards[entry.trim()] = status;
+      else if (typeof entry === 'string' && entry.trim()) cards[entry.trim().toLowerCase()] = status;
+      else throw new Error(`Invalid entry in "${key}": ${JSON.stringify(entry)}.`);
+    });
+  });
+
+  const name = typeof raw.name === 'string' ? raw.name.trim() : '';
+  return {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+    name: name || `${format.label} ${date}`,
+    format: format.id,
+    date,
+    cards
+  };
+};
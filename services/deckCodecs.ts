@@ -0,0 +1,341 @@
+import { Card, DeckData } from '../types';
+import { fetchCardData, fetchCardsByName, isExtraDeckCard, searchCards, toYDK } from './ygoService';
+
+export type DeckSection = keyof DeckData;
+
+/**
+ * A deck as cards, which is what encoders need: text formats write names, not just IDs.
+ */
+export type DeckCards = Record<DeckSection, Card[]>;
+
+const SECTIONS: DeckSection[] = ['main', 'extra', 'side'];
+
+export interface DeckDiagnostic {
+  severity: 'error' | 'warning';
+  message: string;
+  /** 1-based input line the issue comes from, when there is one. */
+  line?: number;
+}
+
+export interface DeckDecodeResult {
+  deck: DeckData;
+  diagnostics: DeckDiagnostic[];
+}
+
+export interface DeckImportResult extends DeckDecodeResult {
+  /** Label of the codec that read the input. */
+  format: string;
+}
+
+export interface DeckCodec {
+  id: string;
+  label: string;
+  /** File extension for downloads, without the dot. */
+  extension: string;
+  mimeType: string;
+  /** Whether the input looks like this format. */
+  detect: (content: string) => boolean;
+  decode: (content: string) => Promise<DeckDecodeResult>;
+  /** Writes the deck so that decode reads back the same cards. */
+  encode: (deck: DeckCards) => string;
+}
+
+interface IdEntry {
+  id: number;
+  section: DeckSection;
+  line?: number;
+}
+
+const emptyDeck = (): DeckData => ({ main: [], extra: [], side: [] });
+
+// Keeps the IDs the card database knows and reports the others
+const resolveIds = async (entries: IdEntry[], diagnostics: DeckDiagnostic[]): Promise<DeckData> => {
+  const known = new Set((await fetchCardData(entries.map(e => e.id))).map(c => c.id));
+  const deck = emptyDeck();
+  entries.forEach(e => {
+    if (known.has(e.id)) deck[e.section].push(e.id);
+    else diagnostics.push({ severity: 'error', message: `Unknown card ID ${e.id} in the ${e.section} deck.`, line: e.line });
+  });
+  return deck;
+};
+
+export const ydkCodec: DeckCodec = {
+  id: 'ydk',
+  label: 'YDK',
+  extension: 'ydk',
+  mimeType: 'text/plain',
+  detect: content => /^\s*(#main|#extra|!side)\b/m.test(content),
+  decode: async content => {
+    const diagnostics: DeckDiagnostic[] = [];
+    const entries: IdEntry[] = [];
+    let section: DeckSection | null = null;
+
+    content.split('\n').forEach((raw, i) => {
+      const line = raw.trim();
+      if (!line) return;
+      if (line.startsWith('#main')) section = 'main';
+      else if (line.startsWith('#extra')) section = 'extra';
+      else if (line.startsWith('!side')) section = 'side';
+      else if (line.startsWith('#')) return;
+      else if (!/^\d+$/.test(line)) diagnostics.push({ severity: 'warning', message: `Skipped "${line}": not a card ID.`, line: i + 1 });
+      else if (!section) diagnostics.push({ severity: 'warning', message: `Skipped card ID ${line} before any #main, #extra or !side header.`, line: i + 1 });
+      else entries.push({ id: parseInt(line, 10), section, line: i + 1 });
+    });
+
+    return { deck: await resolveIds(entries, diagnostics), diagnostics };
+  },
+  encode: deck => toYDK({ main: deck.main.map(c => c.id), extra: deck.extra.map(c => c.id), side: deck.side.map(c => c.id) })
+};
+
+// A ydke section is base64 of little-endian 32-bit card IDs
+const decodeYdkeSection = (part: string): number[] | null => {
+  try {
+    const binary = atob(part);
+    if (binary.length % 4 !== 0) return null;
+    const ids: number[] = [];
+    for (let i = 0; i < binary.length; i += 4) {
+      ids.push((binary.charCodeAt(i) | (binary.charCodeAt(i + 1) << 8) | (binary.charCodeAt(i + 2) << 16) | (binary.charCodeAt(i + 3) << 24)) >>> 0);
+    }
+    return ids;
+  } catch (e) {
+    return null;
+  }
+};
+
+const encodeYdkeSection = (cards: Card[]): string => {
+  let binary = '';
+  cards.forEach(c => {
+    for (let shift = 0; shift < 32; shift += 8) binary += String.fromCharCode((c.id >>> shift) & 0xff);
+  });
+  return btoa(binary);
+};
+
+export const ydkeCodec: DeckCodec = {
+  id: 'ydke',
+  label: 'ydke:// URL',
+  extension: 'txt',
+  mimeType: 'text/plain',
+  detect: content => /^\s*ydke:\/\//i.test(content),
+  decode: async content => {
+    const diagnostics: DeckDiagnostic[] = [];
+    const parts = content.trim().replace(/^ydke:\/\//i, '').split('!');
+    if (parts.length < 3) diagnostics.push({ severity: 'error', message: 'A ydke:// URL needs main, extra and side parts separated by "!".' });
+
+    const entries: IdEntry[] = [];
+    SECTIONS.forEach((section, i) => {
+      const part = parts[i] || '';
+      const ids = decodeYdkeSection(part);
+      if (ids === null) diagnostics.push({ severity: 'error', message: `The ${section} deck part is not valid ydke data.` });
+      else ids.forEach(id => entries.push({ id, section }));
+    });
+
+    return { deck: await resolveIds(entries, diagnostics), diagnostics };
+  },
+  encode: deck => `ydke://${SECTIONS.map(section => encodeYdkeSection(deck[section])).join('!')}!`
+};
+
+// Copies per key (card ID or name), in order of first appearance
+const groupCards = (cards: Card[], key: (card: Card) => string | number): { card: Card; count: number }[] => {
+  const groups = new Map<string | number, { card: Card; count: number }>();
+  cards.forEach(card => {
+    const group = groups.get(key(card));
+    if (group) group.count++;
+    else groups.set(key(card), { card, count: 1 });
+  });
+  return Array.from(groups.values());
+};
+
+const CSV_HEADER = 'Section,Quantity,Name,ID';
+
+const escapeCsv = (value: string): string => /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// Splits one CSV row, honouring quoted fields
+const splitCsvRow = (row: string): string[] => {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < row.length; i++) {
+    const char = row[i];
+    if (quoted) {
+      if (char === '"' && row[i + 1] === '"') { field += '"'; i++; }
+      else if (char === '"') quoted = false;
+      else field += char;
+    } else if (char === '"') quoted = true;
+    else if (char === ',') { fields.push(field); field = ''; }
+    else field += char;
+  }
+  fields.push(field);
+  return fields.map(f => f.trim());
+};
+
+export const csvCodec: DeckCodec = {
+  id: 'csv',
+  label: 'CSV',
+  extension: 'csv',
+  mimeType: 'text/csv',
+  detect: content => content.trim().toLowerCase().startsWith(CSV_HEADER.toLowerCase()),
+  decode: async content => {
+    const diagnostics: DeckDiagnostic[] = [];
+    const entries: IdEntry[] = [];
+    content.split('\n').forEach((raw, i) => {
+      const row = raw.trim();
+      if (i === 0 || !row) return;
+      const [sectionLabel, quantity, name, id] = splitCsvRow(row);
+      const section = SECTIONS.find(s => s === sectionLabel?.toLowerCase());
+      const count = parseInt(quantity, 10);
+      if (!section || isNaN(count) || !/^\d+$/.test(id || '')) {
+        diagnostics.push({ severity: 'error', message: `Skipped "${row}": expected Section, Quantity, Name and ID.`, line: i + 1 });
+        return;
+      }
+      for (let n = 0; n < count; n++) entries.push({ id: parseInt(id, 10), section, line: i + 1 });
+      if (!name) diagnostics.push({ severity: 'warning', message: `Card ID ${id} has no name.`, line: i + 1 });
+    });
+    return { deck: await resolveIds(entries, diagnostics), diagnostics };
+  },
+  encode: deck => [
+    CSV_HEADER,
+    ...SECTIONS.flatMap(section => groupCards(deck[section], card => card.id).map(({ card, count }) =>
+      [section, count.toString(), escapeCsv(card.name), card.id.toString()].join(',')))
+  ].join('\n')
+};
+
+const SECTION_HEADERS: { pattern: RegExp; section: DeckSection }[] = [
+  { pattern: /^(main( deck)?|monsters?|spells?|traps?)$/, section: 'main' },
+  { pattern: /^extra( deck)?$/, section: 'extra' },
+  { pattern: /^side( deck)?$/, section: 'side' }
+];
+
+// Strips decoration such as "#", "=== ", ":" or "(40)" before matching a header
+const parseSectionHeader = (line: string): DeckSection | null => {
+  const label = line.toLowerCase().replace(/^[#!=\-*\s]+|[=\-*:\s]+$/g, '').replace(/\s*\(\d+\)$/, '').trim();
+  return SECTION_HEADERS.find(h => h.pattern.test(label))?.section ?? null;
+};
+
+interface TextEntry {
+  line: number;
+  text: string;
+  section: DeckSection;
+  count: number;
+  name: string;
+}
+
+const parseCardLine = (text: string): { count: number; name: string } => {
+  const leading = text.match(/^(\d+)\s*x?\s+(.+)$/i);
+  if (leading) return { count: parseInt(leading[1], 10), name: leading[2].trim() };
+  const trailing = text.match(/^(.+?)\s+x\s*(\d+)$/i);
+  if (trailing) return { count: parseInt(trailing[2], 10), name: trailing[1].trim() };
+  return { count: 1, name: text };
+};
+
+const MAX_SUGGESTIONS = 10;
+
+// Main deck headings in the text format; the decoder reads all of them as the main deck
+const TEXT_MAIN_HEADINGS = ['Monsters', 'Spells', 'Traps', 'Main Deck'];
+
+const getTextMainHeading = (card: Card): string => {
+  if (card.type.includes('Monster')) return 'Monsters';
+  if (card.type.includes('Spell')) return 'Spells';
+  if (card.type.includes('Trap')) return 'Traps';
+  return 'Main Deck';
+};
+
+export const textCodec: DeckCodec = {
+  id: 'text',
+  label: 'Text decklist',
+  extension: 'txt',
+  mimeType: 'text/plain',
+  detect: () => true,
+  decode: async content => {
+    const diagnostics: DeckDiagnostic[] = [];
+    const entries: TextEntry[] = [];
+    let section: DeckSection = 'main';
+    let hasHeaders = false;
+
+    content.split('\n').forEach((raw, i) => {
+      const text = raw.trim();
+      if (!text || text.startsWith('//')) return;
+      const header = parseSectionHeader(text);
+      if (header) {
+        section = header;
+        hasHeaders = true;
+        return;
+      }
+      if (text.startsWith('#')) return;
+      entries.push({ line: i + 1, text, section, ...parseCardLine(text) });
+    });
+
+    const cards = await fetchCardsByName(entries.map(e => e.name));
+    // Names such as "7 Colored Fish" look like a count, so the whole line is tried for names that didn't resolve
+    const retry = entries.filter(e => e.text !== e.name && !cards.has(e.name.trim().toLowerCase())).map(e => e.text);
+    if (retry.length > 0) (await fetchCardsByName(retry)).forEach((card, key) => cards.set(key, card));
+    const lookup = (name: string): Card | undefined => cards.get(name.trim().toLowerCase());
+
+    const deck = emptyDeck();
+    const unresolved: TextEntry[] = [];
+    entries.forEach(entry => {
+      const parsed = lookup(entry.name);
+      const card = parsed || lookup(entry.text);
+      const count = parsed ? entry.count : 1;
+      if (!card) {
+        unresolved.push(entry);
+        return;
+      }
+      let target = entry.section;
+      if (target === 'main' && isExtraDeckCard(card)) {
+        target = 'extra';
+        if (hasHeaders) diagnostics.push({ severity: 'warning', message: `${card.name} is an Extra Deck monster; moved to the Extra Deck.`, line: entry.line });
+      }
+      for (let i = 0; i < count; i++) deck[target].push(card.id);
+    });
+
+    // One search at a time, to stay under the API's rate limit
+    const suggestions: Card[][] = [];
+    for (const entry of unresolved.slice(0, MAX_SUGGESTIONS)) {
+      suggestions.push(await searchCards(entry.name));
+    }
+    unresolved.forEach((entry, i) => {
+      const suggestion = suggestions[i]?.[0]?.name;
+      diagnostics.push({
+        severity: 'error',
+        message: `No card named "${entry.name}".${suggestion ? ` Did you mean "${suggestion}"?` : ''}`,
+        line: entry.line
+      });
+    });
+
+    return { deck, diagnostics };
+  },
+  encode: deck => {
+    const block = (header: string, cards: Card[]) => cards.length === 0
+      ? []
+      : [`${header} (${cards.length})`, ...groupCards(cards, card => card.name).map(({ card, count }) => `${count}x ${card.name}`), ''];
+    return [
+      ...TEXT_MAIN_HEADINGS.flatMap(heading => block(heading, deck.main.filter(card => getTextMainHeading(card) === heading))),
+      ...block('Extra Deck', deck.extra),
+      ...block('Side Deck', deck.side)
+    ].join('\n').trim();
+  }
+};
+
+/**
+ * Codecs in detection order. The text codec accepts anything, so it comes last. Master Duel deck
+ * codes are not supported: they are lookup keys that only Konami's servers can turn into a deck.
+ */
+export const DECK_CODECS: DeckCodec[] = [ydkeCodec, ydkCodec, csvCodec, textCodec];
+
+/**
+ * `accept` value for deck file inputs, so every format that can be exported can be picked for import.
+ */
+export const DECK_FILE_ACCEPT = Array.from(new Set(DECK_CODECS.map(c => `.${c.extension}`))).join(',');
+
+/**
+ * Reads a deck in any supported format, with a diagnostic for every line that could not be used.
+ */
+export const decodeDeck = async (content: string): Promise<DeckImportResult> => {
+  const codec = DECK_CODECS.find(c => c.detect(content)) || textCodec;
+  const result = await codec.decode(content);
+  const total = result.deck.main.length + result.deck.extra.length + result.deck.side.length;
+  if (total === 0 && result.diagnostics.length === 0) {
+    result.diagnostics.push({ severity: 'error', message: 'No cards found.' });
+  }
+  return { format: codec.label, ...result };
+};
@@ -0,0 +1,87 @@
+import { Card } from '../types';
+import { DeckCards, DeckSection } from './deckCodecs';
+import { SECTION_LABELS } from './deckValidation';
+
+const CARD_WIDTH = 84;
+const CARD_HEIGHT = 123;
+const GAP = 4;
+const COLUMNS = 10;
+const PADDING = 16;
+const TITLE_HEIGHT = 40;
+const LABEL_HEIGHT = 24;
+
+// Resolves to null when the image can't be loaded or read back (e.g. no CORS headers)
+const loadImage = (url: string): Promise<HTMLImageElement | null> => new Promise(resolve => {
+  const image = new Image();
+  image.crossOrigin = 'anonymous';
+  image.onload = () => resolve(image);
+  image.onerror = () => resolve(null);
+  image.src = url;
+});
+
+const drawPlaceholder = (ctx: CanvasRenderingContext2D, card: Card, x: number, y: number) => {
+  ctx.fillStyle = '#1e293b';
+  ctx.fillRect(x, y, CARD_WIDTH, CARD_HEIGHT);
+  ctx.fillStyle = '#cbd5e1';
+  ctx.font = '9px sans-serif';
+  const words = card.name.split(' ');
+  let line = '';
+  let lineY = y + 14;
+  words.forEach(word => {
+    const next = line ? `${line} ${word}` : word;
+    if (ctx.measureText(next).width > CARD_WIDTH - 8 && line) {
+      ctx.fillText(line, x + 4, lineY);
+      line = word;
+      lineY += 11;
+    } else line = next;
+  });
+  ctx.fillText(line, x + 4, lineY);
+};
+
+/**
+ * Renders the deck as a PNG grid of card art, one block per non-empty section. Cards whose art
+ * can't be drawn are shown by name.
+ */
+export const renderDeckImage = async (deck: DeckCards, title: string): Promise<Blob> => {
+  const sections = (Object.keys(SECTION_LABELS) as DeckSection[]).filter(s => deck[s].length > 0);
+  const rowsOf = (cards: Card[]) => Math.ceil(cards.length / COLUMNS);
+
+  const width = PADDING * 2 + COLUMNS * CARD_WIDTH + (COLUMNS - 1) * GAP;
+  const height = PADDING * 2 + TITLE_HEIGHT + sections.reduce((acc, s) => acc + LABEL_HEIGHT + rowsOf(deck[s]) * (CARD_HEIGHT + GAP) + GAP, 0);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available.');
+
+  ctx.fillStyle = '#0f172a';
+  ctx.fillRect(0, 0, width, height);
+  ctx.fillStyle = '#ffffff';
+  ctx.font = 'bold 20px sans-serif';
+  ctx.fillText(title, PADDING, PADDING + 22);
+
+  // Each distinct artwork is fetched once
+  const urls = Array.from(new Set(sections.flatMap(s => deck[s].map(c => c.card_images[0].image_url_small))));
+  const images = new Map(await Promise.all(urls.map(async url => [url, await loadImage(url)] as const)));
+
+  let y = PADDING + TITLE_HEIGHT;
+  sections.forEach(section => {
+    ctx.fillStyle = '#94a3b8';
+    ctx.font = 'bold 12px sans-serif';
+    ctx.fillText(`${SECTION_LABELS[section].toUpperCase()} (${deck[section].length})`, PADDING, y + 14);
+    y += LABEL_HEIGHT;
+    deck[section].forEach((card, i) => {
+      const x = PADDING + (i % COLUMNS) * (CARD_WIDTH + GAP);
+      const cardY = y + Math.floor(i / COLUMNS) * (CARD_HEIGHT + GAP);
+      const image = images.get(card.card_images[0].image_url_small);
+      if (image) ctx.drawImage(image, x, cardY, CARD_WIDTH, CARD_HEIGHT);
+      else drawPlaceholder(ctx, card, x, cardY);
+    });
+    y += rowsOf(deck[section]) * (CARD_HEIGHT + GAP) + GAP;
+  });
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Could not render the deck image.')), 'image/png');
+  });
+};
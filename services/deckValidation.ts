@@ -0,0 +1,111 @@
+import { BanStatus, Card } from '../types';
+import { Banlist, MAX_COPIES, getBanStatus, getCopyLimit } from './banlists';
+import { DeckCards, DeckSection } from './deckCodecs';
+import { isExtraDeckCard } from './ygoService';
+
+export const DECK_SIZE_LIMITS: Record<DeckSection, { min: number; max: number }> = {
+  main: { min: 40, max: 60 },
+  extra: { min: 0, max: 15 },
+  side: { min: 0, max: 15 }
+};
+
+export const SECTION_LABELS: Record<DeckSection, string> = { main: 'Main Deck', extra: 'Extra Deck', side: 'Side Deck' };
+
+/**
+ * Something that makes a deck illegal to register.
+ */
+export type DeckIssue =
+  | { kind: 'size'; section: DeckSection; count: number }
+  | { kind: 'copies'; name: string; count: number }
+  | { kind: 'banlist'; name: string; count: number; status: BanStatus; limit: number; list: string }
+  // A card in the section it can't be played from: Extra Deck monsters in the Main Deck, or the reverse
+  | { kind: 'misplaced'; name: string; count: number; section: 'main' | 'extra' };
+
+const countByName = (cards: Card[]) => {
+  const counts = new Map<string, { card: Card; count: number }>();
+  cards.forEach(card => {
+    const entry = counts.get(card.name);
+    if (entry) entry.count++;
+    else counts.set(card.name, { card, count: 1 });
+  });
+  return Array.from(counts.values());
+};
+
+const getCopyIssue = (card: Card, count: number, banlist: Banlist): DeckIssue | null => {
+  const status = getBanStatus(card, banlist);
+  const limit = getCopyLimit(card, banlist);
+  if (count <= limit) return null;
+  return status ? { kind: 'banlist', name: card.name, count, status, limit, list: banlist.label } : { kind: 'copies', name: card.name, count };
+};
+
+export const validateDeck = (deck: DeckCards, banlist: Banlist): DeckIssue[] => {
+  const issues: DeckIssue[] = [];
+
+  (Object.keys(DECK_SIZE_LIMITS) as DeckSection[]).forEach(section => {
+    const count = deck[section].length;
+    if (count < DECK_SIZE_LIMITS[section].min || count > DECK_SIZE_LIMITS[section].max) issues.push({ kind: 'size', section, count });
+  });
+
+  countByName(deck.main.filter(isExtraDeckCard)).forEach(({ card, count }) => issues.push({ kind: 'misplaced', name: card.name, count, section: 'main' }));
+  countByName(deck.extra.filter(c => !isExtraDeckCard(c))).forEach(({ card, count }) => issues.push({ kind: 'misplaced', name: card.name, count, section: 'extra' }));
+
+  countByName([...deck.main, ...deck.extra, ...deck.side]).forEach(({ card, count }) => {
+    const issue = getCopyIssue(card, count, banlist);
+    if (issue) issues.push(issue);
+  });
+
+  return issues;
+};
+
+/**
+ * Why a card can't be added to a section, or null when it can. Moves between sections (`from`) don't
+ * change the copy count, so only the target section is checked for them.
+ */
+export const getAdditionIssue = (deck: DeckCards, card: Card, section: DeckSection, banlist: Banlist, from?: DeckSection): DeckIssue | null => {
+  if (section === 'main' && isExtraDeckCard(card)) return { kind: 'misplaced', name: card.name, count: 1, section: 'main' };
+  if (section === 'extra' && !isExtraDeckCard(card)) return { kind: 'misplaced', name: card.name, count: 1, section: 'extra' };
+  if (deck[section].length >= DECK_SIZE_LIMITS[section].max) return { kind: 'size', section, count: deck[section].length + 1 };
+  if (from) return null;
+  const count = [...deck.main, ...deck.extra, ...deck.side].filter(c => c.name === card.name).length + 1;
+  return getCopyIssue(card, count, banlist);
+};
+
+export const describeDeckIssue = (issue: DeckIssue): string => {
+  switch (issue.kind) {
+    case 'size': {
+      const { min, max } = DECK_SIZE_LIMITS[issue.section];
+      const label = SECTION_LABELS[issue.section];
+      return issue.count < min
+        ? `${label} has ${issue.count} cards. Add ${min - issue.count} more to reach the ${min}-card minimum.`
+        : `${label} has ${issue.count} cards. Remove ${issue.count - max} to get down to ${max}.`;
+    }
+    case 'copies':
+      return `${issue.count} copies of ${issue.name}. Remove ${issue.count - MAX_COPIES}: at most ${MAX_COPIES} are allowed across Main, Extra and Side.`;
+    case 'banlist':
+      return issue.status === 'Forbidden'
+        ? `${issue.name} is Forbidden under ${issue.list}. Remove ${issue.count > 1 ? `all ${issue.count} copies` : 'it'}.`
+        : `${issue.name} is ${issue.status} under ${issue.list} (${issue.limit} allowed). Remove ${issue.count - issue.limit} of ${issue.count} copies.`;
+    case 'misplaced':
+      return issue.section === 'main'
+        ? `${issue.count}x ${issue.name} in the Main Deck. Move ${issue.count > 1 ? 'them' : 'it'} to the Extra Deck.`
+        : `${issue.count}x ${issue.name} in the Extra Deck. Only Fusion, Synchro, Xyz and Link monsters go there; move ${issue.count > 1 ? 'them' : 'it'} to the Main Deck.`;
+  }
+};
+
+/**
+ * The reason an add was refused, worded for the card being added rather than the deck as a whole.
+ */
+export const describeAdditionIssue = (issue: DeckIssue): string => {
+  switch (issue.kind) {
+    case 'size':
+      return `The ${SECTION_LABELS[issue.section]} is already at ${DECK_SIZE_LIMITS[issue.section].max} cards.`;
+    case 'copies':
+      return `You already run ${MAX_COPIES} copies of ${issue.name}.`;
+    case 'banlist':
+      return issue.status === 'Forbidden'
+        ? `${issue.name} is Forbidden under ${issue.list}.`
+        : `${issue.name} is ${issue.status} under ${issue.list}: ${issue.limit} ${issue.limit === 1 ? 'copy' : 'copies'} allowed.`;
+    case 'misplaced':
+      return issue.section === 'main' ? `${issue.name} is an Extra Deck monster.` : `${issue.name} isn't an Extra Deck monster.`;
+  }
+};
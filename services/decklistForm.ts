@@ -0,0 +1,56 @@
+import { Card } from '../types';
+import { DeckCards } from './deckCodecs';
+
+export interface DecklistRow {
+  name: string;
+  count: number;
+}
+
+/**
+ * A deck laid out as on the paper tournament decklist: the main deck split by card type, with
+ * one row per distinct card.
+ */
+export interface DecklistForm {
+  monsters: DecklistRow[];
+  spells: DecklistRow[];
+  traps: DecklistRow[];
+  extra: DecklistRow[];
+  side: DecklistRow[];
+  totals: { monsters: number; spells: number; traps: number; main: number; extra: number; side: number };
+}
+
+// Rows keep the order each card first appears in
+const toRows = (cards: Card[]): DecklistRow[] => {
+  const rows = new Map<string, DecklistRow>();
+  cards.forEach(card => {
+    const row = rows.get(card.name);
+    if (row) row.count++;
+    else rows.set(card.name, { name: card.name, count: 1 });
+  });
+  return Array.from(rows.values());
+};
+
+const sumRows = (rows: DecklistRow[]) => rows.reduce((acc, row) => acc + row.count, 0);
+
+export const buildDecklistForm = (deck: DeckCards): DecklistForm => {
+  const monsters = toRows(deck.main.filter(c => c.type.includes('Monster')));
+  const spells = toRows(deck.main.filter(c => c.type.includes('Spell')));
+  const traps = toRows(deck.main.filter(c => c.type.includes('Trap')));
+  const extra = toRows(deck.extra);
+  const side = toRows(deck.side);
+  return {
+    monsters,
+    spells,
+    traps,
+    extra,
+    side,
+    totals: {
+      monsters: sumRows(monsters),
+      spells: sumRows(spells),
+      traps: sumRows(traps),
+      main: deck.main.length,
+      extra: deck.extra.length,
+      side: deck.side.length
+    }
+  };
+};
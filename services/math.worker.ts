@@ -0,0 +1,20 @@
+import { MathTask, executeMathTask } from './mathTasks';
+
+export type MathWorkerRequest = { id: number; task: MathTask };
+
+export type MathWorkerResponse =
+  | { id: number; type: 'progress'; progress: number }
+  | { id: number; type: 'result'; result: unknown }
+  | { id: number; type: 'error'; message: string };
+
+const respond = (message: MathWorkerResponse) => self.postMessage(message);
+
+self.onmessage = (event: MessageEvent<MathWorkerRequest>) => {
+  const { id, task } = event.data;
+  try {
+    const result = executeMathTask(task, progress => respond({ id, type: 'progress', progress }));
+    respond({ id, type: 'result', result });
+  } catch (e) {
+    respond({ id, type: 'error', message: e instanceof Error ? e.message : String(e) });
+  }
+};
@@ -0,0 +1,116 @@
+import { MathTask, MathTaskResult, executeMathTask, getMathTaskKey } from './mathTasks';
+import type { MathWorkerRequest, MathWorkerResponse } from './math.worker';
+
+/**
+ * Rejection for a calculation that was superseded by a newer one on the same lane.
+ */
+export class MathTaskCancelledError extends Error {
+  constructor() {
+    super('Calculation superseded by a newer request');
+    this.name = 'MathTaskCancelledError';
+  }
+}
+
+interface Lane {
+  worker: Worker;
+  pending?: { id: number; reject: (reason: unknown) => void };
+}
+
+const CACHE_LIMIT = 200;
+const resultCache = new Map<string, unknown>();
+const lanes = new Map<string, Lane>();
+let nextRequestId = 1;
+
+const rememberResult = (key: string, result: unknown) => {
+  resultCache.set(key, result);
+  // Map iteration follows insertion order, so the first key is the oldest entry
+  if (resultCache.size > CACHE_LIMIT) resultCache.delete(resultCache.keys().next().value!);
+};
+
+const getLane = (name: string): Lane => {
+  let lane = lanes.get(name);
+  if (!lane) {
+    lane = { worker: new Worker(new URL('./math.worker.ts', import.meta.url), { type: 'module' }) };
+    lanes.set(name, lane);
+  }
+  return lane;
+};
+
+/**
+ * Stops the calculation running on a lane, if any. The worker is busy with synchronous
+ * math, so it is terminated and a fresh one is spawned for the next request.
+ */
+export const cancelMathTask = (laneName: string) => {
+  const lane = lanes.get(laneName);
+  if (!lane?.pending) return;
+  lane.worker.terminate();
+  lane.pending.reject(new MathTaskCancelledError());
+  lanes.delete(laneName);
+};
+
+/**
+ * Runs a calculation off the main thread. Each lane (one per calculator on screen) runs one
+ * task at a time, and a new request cancels the stale one. Results are cached by their
+ * normalized inputs.
+ */
+export const runMathTask = <T extends MathTask>(
+  laneName: string,
+  task: T,
+  onProgress?: (fraction: number) => void
+): Promise<MathTaskResult<T>> => {
+  cancelMathTask(laneName);
+
+  const key = getMathTaskKey(task);
+  if (resultCache.has(key)) {
+    onProgress?.(1);
+    return Promise.resolve(resultCache.get(key) as MathTaskResult<T>);
+  }
+
+  if (typeof Worker === 'undefined') {
+    const result = executeMathTask(task, onProgress);
+    rememberResult(key, result);
+    return Promise.resolve(result);
+  }
+
+  return new Promise((resolve, reject) => {
+    const id = nextRequestId++;
+    const lane = getLane(laneName);
+    lane.pending = { id, reject };
+
+    lane.worker.onmessage = (event: MessageEvent<MathWorkerResponse>) => {
+      const message = event.data;
+      if (message.id !== id) return;
+      if (message.type === 'progress') {
+        onProgress?.(message.progress);
+        return;
+      }
+
+      lane.pending = undefined;
+      if (message.type === 'result') {
+        rememberResult(key, message.result);
+        resolve(message.result as MathTaskResult<T>);
+      } else {
+        reject(new Error(message.message));
+      }
+    };
+
+    // A worker that failed may be left broken, so the next request gets a fresh one
+    lane.worker.onerror = (event: ErrorEvent) => {
+      lane.pending = undefined;
+      lane.worker.terminate();
+      if (lanes.get(laneName) === lane) lanes.delete(laneName);
+      reject(new Error(event.message));
+    };
+
+    const request: MathWorkerRequest = { id, task };
+    lane.worker.postMessage(request);
+  });
+};
+
+/**
+ * Catch handler for runMathTask: superseded calculations are expected and stay silent.
+ */
+export const handleMathTaskError = (e: unknown) => {
+  if (e instanceof MathTaskCancelledError) return;
+  console.error("Calculation failed", e);
+};
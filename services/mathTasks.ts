@@ -0,0 +1,123 @@
+import { Card } from '../types';
+import {
+  HyperGroup,
+  HyperCard,
+  HandCondition,
+  ExactProbability,
+  ProbabilityRow,
+  TurnProbability,
+  calculateMultivariateHyper,
+  calculateConditionProbability,
+  calculateProbabilities,
+  calculateByTurn,
+  calculateTurnProbabilities,
+  createConditionPredicate,
+  createGroupConstraintPredicate
+} from './mathUtils';
+import {
+  DrawEffectEntry,
+  DrawSimulationResult,
+  HandRule,
+  MonteCarloResult,
+  simulateDrawEffects,
+  runMonteCarlo
+} from './simulation';
+import { RoleReport, calculateRoleReport } from './roleAnalysis';
+import { IdAdvisorInput, IdStrategyOutcome, SwissConfig, SwissEntrant, SwissSimulationResult, adviseIntentionalDraws, simulateSwiss } from './swissSimulation';
+import { DeckSizeComparison, RatioCandidate, RatioTuningResult, SizeObjective, compareDeckSizes, tuneRatios } from './optimizer';
+
+/**
+ * Serializable description of a calculation, so it can be posted to the math worker
+ * and used as a cache key. Conditions, when present, take precedence over group constraints.
+ */
+export type MathTask =
+  | { kind: 'hyper'; deckSize: number; handSize: number; groups: HyperGroup[]; cards: HyperCard[]; conditions: HandCondition[]; precision?: number }
+  | { kind: 'hyperByTurn'; deckSize: number; maxTurns: number; groups: HyperGroup[]; cards: HyperCard[]; conditions: HandCondition[] }
+  | { kind: 'deckProbabilities'; deckSize: number; targetCount: number; handSize: number }
+  | { kind: 'deckByTurn'; deckSize: number; targetCount: number; minCopies: number; maxTurns: number }
+  | { kind: 'drawEffects'; deckSize: number; handSize: number; groups: HyperGroup[]; cards: HyperCard[]; conditions: HandCondition[]; entries: DrawEffectEntry[]; trials: number; seed: number }
+  | { kind: 'monteCarlo'; deck: Card[]; handSize: number; rules: HandRule[]; trials: number; seed: number }
+  | { kind: 'roleReport'; deckSize: number; handSize: number; cards: HyperCard[] }
+  | { kind: 'deckSizes'; handSize: number; cards: HyperCard[]; pool: HyperCard[]; maxExtra: number; objective: SizeObjective }
+  | { kind: 'ratios'; deckSize: number; handSize: number; groups: HyperGroup[]; candidates: RatioCandidate[]; topCount: number }
+  | { kind: 'swiss'; config: SwissConfig; iterations: number; seed: number; entrant?: SwissEntrant }
+  | { kind: 'idAdvisor'; input: IdAdvisorInput; iterations: number; seed: number };
+
+export interface HyperTaskResult {
+  /** Probability that all group constraints hold. */
+  allGroups: ExactProbability;
+  /** Probability that any condition holds, or null without conditions. */
+  anyCondition: ExactProbability | null;
+}
+
+export interface MathTaskResults {
+  hyper: HyperTaskResult;
+  hyperByTurn: TurnProbability[];
+  deckProbabilities: ProbabilityRow[];
+  deckByTurn: TurnProbability[];
+  drawEffects: DrawSimulationResult | null;
+  monteCarlo: MonteCarloResult | null;
+  roleReport: RoleReport;
+  deckSizes: DeckSizeComparison;
+  ratios: RatioTuningResult;
+  swiss: SwissSimulationResult | null;
+  idAdvisor: IdStrategyOutcome[] | null;
+}
+
+export type MathTaskResult<T extends MathTask> = MathTaskResults[T['kind']];
+
+/**
+ * Runs a task synchronously. Called from the worker, or inline where workers are unavailable.
+ */
+export const executeMathTask = <T extends MathTask>(
+  task: T,
+  onProgress?: (fraction: number) => void
+): MathTaskResult<T> => {
+  const run = (): MathTaskResults[MathTask['kind']] => {
+    switch (task.kind) {
+      case 'hyper':
+        return {
+          allGroups: calculateMultivariateHyper(task.deckSize, task.handSize, task.groups, task.cards, task.precision),
+          anyCondition: task.conditions.length > 0
+            ? calculateConditionProbability(task.deckSize, task.handSize, task.groups, task.cards, task.conditions, task.precision)
+            : null
+        };
+      case 'hyperByTurn':
+        return calculateByTurn(task.deckSize, task.maxTurns, cardsSeen => task.conditions.length > 0
+          ? calculateConditionProbability(task.deckSize, cardsSeen, task.groups, task.cards, task.conditions).percent
+          : calculateMultivariateHyper(task.deckSize, cardsSeen, task.groups, task.cards).percent, onProgress);
+      case 'deckProbabilities':
+        return calculateProbabilities(task.deckSize, task.targetCount, task.handSize);
+      case 'deckByTurn':
+        return calculateTurnProbabilities(task.deckSize, task.targetCount, task.minCopies, task.maxTurns);
+      case 'drawEffects': {
+        const predicate = createConditionPredicate(task.groups, task.conditions) ?? createGroupConstraintPredicate(task.groups);
+        return simulateDrawEffects(task.deckSize, task.handSize, task.groups, task.cards, task.entries, predicate, task.trials, task.seed, onProgress);
+      }
+      case 'monteCarlo':
+        return runMonteCarlo(task.deck, task.handSize, task.rules, task.trials, task.seed, undefined, onProgress);
+      case 'roleReport':
+        return calculateRoleReport(task.deckSize, task.handSize, task.cards);
+      case 'deckSizes':
+        return compareDeckSizes(task.handSize, task.cards, task.pool, task.maxExtra, task.objective, onProgress);
+      case 'ratios':
+        return tuneRatios(task.deckSize, task.handSize, task.groups, task.candidates, task.topCount, onProgress);
+      case 'swiss':
+        return simulateSwiss(task.config, task.iterations, task.seed, task.entrant, onProgress);
+      case 'idAdvisor':
+        return adviseIntentionalDraws(task.input, task.iterations, task.seed, onProgress);
+    }
+  };
+  return run() as MathTaskResult<T>;
+};
+
+/**
+ * Cache key for a task. Display names never affect results and cards are reduced to
+ * their ids, so renaming a group or reloading the same deck still hits the cache.
+ */
+export const getMathTaskKey = (task: MathTask): string => {
+  const normalized = task.kind === 'monteCarlo'
+    ? { ...task, deck: task.deck.map(c => c.id) }
+    : task;
+  return JSON.stringify(normalized, (key, value) => key === 'name' ? undefined : value);
+};
@@ -24,98 +24,390 @@ export const combinations = (n: number, k: number): bigint => {
   return res;
 };
 
+/**
+ * An exact probability. The fraction is kept in lowest terms so results can be
+ * compared exactly; the derived fields are for display.
+ */
+export interface ExactProbability {
+  numerator: bigint;
+  denominator: bigint;
+  /** Probability (0-1) as a decimal string, rounded half-up to the requested places. */
+  decimal: string;
+  /** Percentage (0-100) as a float, for charts and sorting. */
+  percent: number;
+  /** N in "1 in N" odds; Infinity when the event is impossible. */
+  oneIn: number;
+}
+
+export const DEFAULT_PRECISION = 6;
+
+const gcd = (a: bigint, b: bigint): bigint => {
+  while (b !== 0n) [a, b] = [b, a % b];
+  return a;
+};
+
+/**
+ * Builds an ExactProbability from a success count over a total count.
+ */
+export const createExactProbability = (
+  numerator: bigint,
+  denominator: bigint,
+  precision: number = DEFAULT_PRECISION
+): ExactProbability => {
+  if (numerator <= 0n || denominator <= 0n) {
+    return { numerator: 0n, denominator: 1n, decimal: (0).toFixed(precision), percent: 0, oneIn: Infinity };
+  }
+
+  const divisor = gcd(numerator, denominator);
+  const num = numerator / divisor;
+  const den = denominator / divisor;
+
+  const scale = 10n ** BigInt(precision);
+  const scaled = (num * scale * 2n + den) / (2n * den);
+  const fraction = (scaled % scale).toString().padStart(precision, '0');
+  const decimal = precision > 0 ? `${scaled / scale}.${fraction}` : `${scaled / scale}`;
+
+  return {
+    numerator: num,
+    denominator: den,
+    decimal,
+    percent: (Number(num) / Number(den)) * 100,
+    oneIn: Number(den) / Number(num)
+  };
+};
+
+/**
+ * Formats a percentage with the given decimals. Odds too rare to show at that precision
+ * switch to significant digits instead of collapsing to 0.00%.
+ */
+export const formatPercent = (percent: number, decimals: number = 2): string => {
+  if (percent <= 0) return '0%';
+  if (percent >= 10 ** -decimals) return `${percent.toFixed(decimals)}%`;
+  return `${percent.toPrecision(2)}%`;
+};
+
+export const formatProbability = (probability: ExactProbability, decimals: number = 2): string =>
+  formatPercent(probability.percent, decimals);
+
+/**
+ * Percentage read from the exact `decimal` string, so every digit shown is exact. A probability
+ * computed with `precision` places shows `precision - 2` decimals. Odds that round to zero fall
+ * back to formatPercent.
+ */
+export const formatExactPercent = (probability: ExactProbability): string => {
+  const [whole, fraction = ''] = probability.decimal.split('.');
+  if (probability.numerator > 0n && /^[0.]*$/.test(probability.decimal)) return formatPercent(probability.percent, Math.max(0, fraction.length - 2));
+  const digits = `${whole}${fraction.padEnd(2, '0')}`;
+  const integerPart = digits.slice(0, whole.length + 2).replace(/^0+(?=\d)/, '');
+  const decimals = digits.slice(whole.length + 2);
+  return `${integerPart}${decimals ? `.${decimals}` : ''}%`;
+};
+
+/**
+ * "1 in N" form of a probability, e.g. "1 in 1,234".
+ */
+export const formatOneIn = (probability: ExactProbability): string => {
+  if (probability.numerator === 0n) return 'Impossible';
+  if (probability.oneIn < 10) return `1 in ${probability.oneIn.toFixed(2)}`;
+  return `1 in ${Math.round(probability.oneIn).toLocaleString()}`;
+};
+
 export interface HyperGroup {
   id: string;
   name: string;
-  countInDeck: number;
   minDesired: number;
   maxDesired: number;
 }
 
 /**
- * Calculates Multivariate Hypergeometric Probability with constraints.
- * Uses BigInt for intermediate summation to prevent precision loss.
- * Returns the probability as a percentage (0-100).
+ * A card entry in the calculator. A card may be tagged with several groups
+ * (e.g. a starter that is also a hand trap) and counts towards each of them.
  */
-export const calculateMultivariateHyper = (
+export interface HyperCard {
+  id: string;
+  name: string;
+  copies: number;
+  groupIds: string[];
+}
+
+export interface HandRequirement {
+  groupId: string;
+  min: number;
+  max: number;
+}
+
+/**
+ * A single way of "winning" the opening hand: every requirement must hold at once.
+ */
+export interface HandCondition {
+  id: string;
+  name: string;
+  requirements: HandRequirement[];
+}
+
+/**
+ * Number of copies in the deck that count towards a group.
+ */
+export const getGroupCount = (groupId: string, cards: HyperCard[]): number =>
+  cards.reduce((acc, c) => acc + (c.groupIds.includes(groupId) ? c.copies : 0), 0);
+
+interface PartitionCell {
+  count: number;
+  groupIndices: number[];
+}
+
+/**
+ * Splits the tagged cards into disjoint cells, one per distinct set of groups.
+ * Cards tagged with no known group fall into the untracked remainder of the deck.
+ */
+const buildPartition = (groups: HyperGroup[], cards: HyperCard[]): PartitionCell[] => {
+  const indexById = new Map(groups.map((g, i) => [g.id, i]));
+  const cells = new Map<string, PartitionCell>();
+
+  cards.forEach(card => {
+    if (card.copies <= 0) return;
+    const groupIndices = Array.from(new Set(card.groupIds))
+      .filter(id => indexById.has(id))
+      .map(id => indexById.get(id)!)
+      .sort((a, b) => a - b);
+    if (groupIndices.length === 0) return;
+
+    const key = groupIndices.join(',');
+    const cell = cells.get(key);
+    if (cell) cell.count += card.copies;
+    else cells.set(key, { count: card.copies, groupIndices });
+  });
+
+  return Array.from(cells.values());
+};
+
+/**
+ * Walks every split of the hand across the partition cells exactly once and
+ * returns the exact probability of the hands whose per-group counts pass `accept`.
+ * Uses BigInt throughout so no precision is lost.
+ */
+const sumPartitionProbability = (
   deckSize: number,
   handSize: number,
-  groups: HyperGroup[]
-): number => {
-  if (handSize > deckSize || handSize < 0) return 0;
-  
-  const totalInGroups = groups.reduce((acc, g) => acc + g.countInDeck, 0);
-  if (totalInGroups > deckSize) return 0;
+  groups: HyperGroup[],
+  cards: HyperCard[],
+  accept: HandPredicate,
+  precision: number
+): ExactProbability => {
+  const impossible = createExactProbability(0n, 1n, precision);
+  if (handSize > deckSize || handSize < 0) return impossible;
 
-  const otherCount = deckSize - totalInGroups;
+  const totalCards = cards.reduce((acc, c) => acc + Math.max(0, c.copies), 0);
+  if (totalCards > deckSize) return impossible;
+
+  const cells = buildPartition(groups, cards);
+  const otherCount = deckSize - cells.reduce((acc, c) => acc + c.count, 0);
   const totalCombinations = combinations(deckSize, handSize);
-  if (totalCombinations === 0n) return 0;
+  if (totalCombinations === 0n) return impossible;
 
+  const groupCounts: number[] = new Array(groups.length).fill(0);
   let totalSuccessfulCombinations = 0n;
 
-  /**
-   * Recursive solver to find all valid combinations of group selections 
-   * that satisfy the hand size and group constraints.
-   */
-  const solve = (groupIndex: number, remainingHand: number, currentWays: bigint) => {
-    // Optimization: if we already need more cards than remaining, or 
-    // we have more cards than hand can hold, prune this branch.
-    if (remainingHand < 0) return;
-
-    if (groupIndex === groups.length) {
+  const solve = (cellIndex: number, remainingHand: number, currentWays: bigint) => {
+    if (cellIndex === cells.length) {
       // Pick the remaining cards from the 'Other' group (non-categorized cards)
-      if (remainingHand <= otherCount) {
+      if (remainingHand <= otherCount && accept(groupCounts)) {
         totalSuccessfulCombinations += currentWays * combinations(otherCount, remainingHand);
       }
       return;
     }
 
-    const group = groups[groupIndex];
-    const minTake = Math.max(0, group.minDesired);
-    const maxTake = Math.min(remainingHand, group.countInDeck, group.maxDesired);
+    const cell = cells[cellIndex];
+    const maxTake = Math.min(remainingHand, cell.count);
 
-    for (let take = minTake; take <= maxTake; take++) {
-      const ways = combinations(group.countInDeck, take);
-      if (ways > 0n) {
-        solve(groupIndex + 1, remainingHand - take, currentWays * ways);
-      }
+    for (let take = 0; take <= maxTake; take++) {
+      cell.groupIndices.forEach(i => { groupCounts[i] += take; });
+      solve(cellIndex + 1, remainingHand - take, currentWays * combinations(cell.count, take));
+      cell.groupIndices.forEach(i => { groupCounts[i] -= take; });
     }
   };
 
   solve(0, handSize, 1n);
 
-  // Convert back to number for UI; result is (Success / Total) * 100
-  // We use Number(bigint) / Number(bigint) as the final precision loss is negligible for percentage display.
-  return (Number(totalSuccessfulCombinations) / Number(totalCombinations)) * 100;
+  return createExactProbability(totalSuccessfulCombinations, totalCombinations, precision);
 };
 
+/**
+ * Tests a hand given how many of its cards count towards each group (indexed like the groups array).
+ */
+export type HandPredicate = (groupCounts: number[]) => boolean;
+
+/**
+ * Predicate requiring every group's min/max constraint to hold at once.
+ */
+export const createGroupConstraintPredicate = (groups: HyperGroup[]): HandPredicate => groupCounts =>
+  groups.every((g, i) => groupCounts[i] >= Math.max(0, g.minDesired) && groupCounts[i] <= g.maxDesired);
+
+/**
+ * Predicate passing when any condition holds. Requirements on removed groups are dropped;
+ * returns null when no condition has a usable requirement left.
+ */
+export const createConditionPredicate = (groups: HyperGroup[], conditions: HandCondition[]): HandPredicate | null => {
+  const indexById = new Map(groups.map((g, i) => [g.id, i]));
+  const resolved = conditions
+    .map(c => c.requirements
+      .filter(r => indexById.has(r.groupId))
+      .map(r => ({ index: indexById.get(r.groupId)!, min: r.min, max: r.max })))
+    .filter(reqs => reqs.length > 0);
+  if (resolved.length === 0) return null;
+
+  return groupCounts =>
+    resolved.some(reqs => reqs.every(r => groupCounts[r.index] >= r.min && groupCounts[r.index] <= r.max));
+};
+
+/**
+ * Calculates Multivariate Hypergeometric Probability with constraints.
+ * Groups may overlap; the hand is evaluated over the underlying card partition,
+ * so a card tagged with two groups counts towards both.
+ */
+export const calculateMultivariateHyper = (
+  deckSize: number,
+  handSize: number,
+  groups: HyperGroup[],
+  cards: HyperCard[],
+  precision: number = DEFAULT_PRECISION
+): ExactProbability => {
+  return sumPartitionProbability(deckSize, handSize, groups, cards, createGroupConstraintPredicate(groups), precision);
+};
+
+/**
+ * Calculates the probability of opening at least one of the given conditions
+ * (an OR of ANDs over the groups). Each split of the hand is visited exactly
+ * once and counted if any condition holds, so conditions that overlap are
+ * never double counted.
+ */
+export const calculateConditionProbability = (
+  deckSize: number,
+  handSize: number,
+  groups: HyperGroup[],
+  cards: HyperCard[],
+  conditions: HandCondition[],
+  precision: number = DEFAULT_PRECISION
+): ExactProbability => {
+  const predicate = createConditionPredicate(groups, conditions);
+  if (!predicate) return createExactProbability(0n, 1n, precision);
+  return sumPartitionProbability(deckSize, handSize, groups, cards, predicate, precision);
+};
+
+export interface ProbabilityRow {
+  drawCount: number;
+  /** Percentage (0-100) of drawing exactly drawCount copies. */
+  exact: number;
+  /** Percentage (0-100) of drawing at least drawCount copies. */
+  cumulativeAtLeast: number;
+  exactProbability: ExactProbability;
+  atLeastProbability: ExactProbability;
+}
+
 /**
  * Calculates probabilities for the Deck View by wrapping the multivariate logic.
  */
-export const calculateProbabilities = (deckSize: number, targetCount: number, handSize: number) => {
-  const result = [];
+export const calculateProbabilities = (deckSize: number, targetCount: number, handSize: number): ProbabilityRow[] => {
+  const result: ProbabilityRow[] = [];
   const maxPossible = Math.min(targetCount, handSize);
+  const targetCards: HyperCard[] = [{ id: 'tmp', name: 'tmp', copies: targetCount, groupIds: ['tmp'] }];
 
   for (let i = 0; i <= maxPossible; i++) {
     // Exact probability for drawing exactly 'i' copies
     const exactProb = calculateMultivariateHyper(deckSize, handSize, [
-      { id: 'tmp', name: 'tmp', countInDeck: targetCount, minDesired: i, maxDesired: i }
-    ]);
+      { id: 'tmp', name: 'tmp', minDesired: i, maxDesired: i }
+    ], targetCards);
 
     // Cumulative probability for drawing at least 'i' copies
     const atLeastProb = calculateMultivariateHyper(deckSize, handSize, [
-      { id: 'tmp', name: 'tmp', countInDeck: targetCount, minDesired: i, maxDesired: handSize }
-    ]);
+      { id: 'tmp', name: 'tmp', minDesired: i, maxDesired: handSize }
+    ], targetCards);
 
     result.push({
       drawCount: i,
-      exact: parseFloat(exactProb.toFixed(2)),
-      cumulativeAtLeast: parseFloat(atLeastProb.toFixed(2))
+      exact: exactProb.percent,
+      cumulativeAtLeast: atLeastProb.percent,
+      exactProbability: exactProb,
+      atLeastProbability: atLeastProb
     });
   }
   return result;
 };
 
+export type PlayOrder = 'first' | 'second';
+
+/**
+ * Number of cards seen after the draw phase of the player's Nth turn.
+ * Going first there is no draw on turn 1 (5 cards); going second opens with 6.
+ */
+export const getCardsSeenByTurn = (turn: number, playOrder: PlayOrder): number =>
+  (playOrder === 'first' ? 5 : 6) + Math.max(0, turn - 1);
+
+export interface TurnProbability {
+  turn: number;
+  goingFirst: number;
+  goingSecond: number;
+}
+
+/**
+ * Evaluates a hand-size based calculation (returning a percentage) for every turn
+ * up to maxTurns, for both play orders.
+ */
+export const calculateByTurn = (
+  deckSize: number,
+  maxTurns: number,
+  calculate: (cardsSeen: number) => number,
+  onProgress?: (fraction: number) => void
+): TurnProbability[] => {
+  const result: TurnProbability[] = [];
+  for (let turn = 1; turn <= maxTurns; turn++) {
+    const firstSeen = getCardsSeenByTurn(turn, 'first');
+    const secondSeen = getCardsSeenByTurn(turn, 'second');
+    if (secondSeen > deckSize) break;
+
+    result.push({
+      turn,
+      goingFirst: calculate(firstSeen),
+      goingSecond: calculate(secondSeen)
+    });
+    onProgress?.(turn / maxTurns);
+  }
+  return result;
+};
+
+/**
+ * Chance to have seen at least minCopies of the targets by each turn, going first and second.
+ */
+export const calculateTurnProbabilities = (
+  deckSize: number,
+  targetCount: number,
+  minCopies: number,
+  maxTurns: number
+): TurnProbability[] => {
+  const targetCards: HyperCard[] = [{ id: 'tmp', name: 'tmp', copies: targetCount, groupIds: ['tmp'] }];
+  return calculateByTurn(deckSize, maxTurns, cardsSeen =>
+    calculateMultivariateHyper(deckSize, cardsSeen, [
+      { id: 'tmp', name: 'tmp', minDesired: minCopies, maxDesired: cardsSeen }
+    ], targetCards).percent
+  );
+};
+
+/**
+ * 95% Wilson score interval for a success rate, as percentages (0-100).
+ * Stays sensible for small samples and rates near 0% or 100%.
+ */
+export const wilsonInterval = (successes: number, trials: number, z: number = 1.96): { lower: number; upper: number } => {
+  if (trials <= 0) return { lower: 0, upper: 100 };
+  const p = successes / trials;
+  const z2 = z * z;
+  const center = (p + z2 / (2 * trials)) / (1 + z2 / trials);
+  const margin = (z / (1 + z2 / trials)) * Math.sqrt((p * (1 - p)) / trials + z2 / (4 * trials * trials));
+  return {
+    lower: Math.max(0, center - margin) * 100,
+    upper: Math.min(1, center + margin) * 100
+  };
+};
+
 export interface SwissStanding {
   wins: number;
   losses: number;
@@ -141,12 +433,62 @@ export const calculateSwissStandings = (numPlayers: number, numRounds: number):
   return standings;
 };
 
+export interface FinalRecordOutcome {
+  wins: number;
+  losses: number;
+  /** Chance (0-1) of finishing on this record. */
+  probability: number;
+}
+
+/**
+ * Distribution of final records from the current one, winning each remaining round with
+ * probability `winRate` (0-1).
+ */
+export const calculateFinalRecordDistribution = (
+  totalRounds: number,
+  currentWins: number,
+  currentLosses: number,
+  winRate: number = 0.5
+): FinalRecordOutcome[] => {
+  const remainingRounds = totalRounds - (currentWins + currentLosses);
+  if (remainingRounds < 0) return [];
+
+  const outcomes: FinalRecordOutcome[] = [];
+  for (let i = remainingRounds; i >= 0; i--) {
+    outcomes.push({
+      wins: currentWins + i,
+      losses: currentLosses + remainingRounds - i,
+      probability: Number(combinations(remainingRounds, i)) * winRate ** i * (1 - winRate) ** (remainingRounds - i)
+    });
+  }
+  return outcomes;
+};
+
+export interface MetagameEntry {
+  id: string;
+  archetype: string;
+  /** Expected share of the field, in percent. Shares need not add up to 100. */
+  share: number;
+  /** Win rate against this archetype, in percent. */
+  winRate: number;
+}
+
+/**
+ * Win rate (0-100) against a field, weighting each matchup by its share.
+ */
+export const calculateWeightedWinRate = (metagame: MetagameEntry[]): number | null => {
+  const totalShare = metagame.reduce((acc, m) => acc + Math.max(0, m.share), 0);
+  if (totalShare <= 0) return null;
+  return metagame.reduce((acc, m) => acc + Math.max(0, m.share) * m.winRate, 0) / totalShare;
+};
+
 export const calculateTopXProbability = (
   totalPlayers: number,
   totalRounds: number,
   targetRank: number,
   currentWins: number,
-  currentLosses: number
+  currentLosses: number,
+  winRate: number = 0.5
 ): number => {
   const remainingRounds = totalRounds - (currentWins + currentLosses);
   if (remainingRounds < 0) return 0;
@@ -171,15 +513,8 @@ export const calculateTopXProbability = (
     }
   }
 
-  let totalProbability = 0;
-  const denominator = 2 ** remainingRounds;
-
-  for (let i = 0; i <= remainingRounds; i++) {
-    const finalWins = currentWins + i;
-    const probGettingMoreWins = Number(combinations(remainingRounds, i)) / denominator;
-    const chanceOfMakingItAtThatRecord = makeItChanceMap[finalWins] || 0;
-    totalProbability += probGettingMoreWins * chanceOfMakingItAtThatRecord;
-  }
+  const totalProbability = calculateFinalRecordDistribution(totalRounds, currentWins, currentLosses, winRate)
+    .reduce((acc, outcome) => acc + outcome.probability * (makeItChanceMap[outcome.wins] || 0), 0);
 
   return parseFloat((totalProbability * 100).toFixed(2));
 };
\ No newline at end of file
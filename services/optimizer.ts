@@ -0,0 +1,207 @@
+import { ExactProbability, HyperCard, HyperGroup, calculateMultivariateHyper } from './mathUtils';
+import { RoleReport, calculateRoleReport } from './roleAnalysis';
+
+export type SizeObjective = 'starterHit' | 'allBrick' | 'garnetDrawn' | 'expectedHandTraps';
+
+export const SIZE_OBJECTIVES: { id: SizeObjective; label: string }[] = [
+  { id: 'starterHit', label: 'Maximize 1+ starter' },
+  { id: 'allBrick', label: 'Minimize all-brick hands' },
+  { id: 'garnetDrawn', label: 'Minimize garnets drawn' },
+  { id: 'expectedHandTraps', label: 'Maximize hand traps' }
+];
+
+/**
+ * Higher is better for every objective.
+ */
+const scoreReport = (report: RoleReport, objective: SizeObjective): number => {
+  switch (objective) {
+    case 'starterHit': return report.starterHit.percent;
+    case 'allBrick': return -report.allBrick.percent;
+    case 'garnetDrawn': return -report.garnetDrawn.percent;
+    case 'expectedHandTraps': return report.expectedHandTraps;
+  }
+};
+
+export interface DeckSizeOption {
+  deckSize: number;
+  /** Cards added on top of the current deck, by name. Empty for the current deck and filler builds. */
+  additions: { name: string; copies: number }[];
+  /** True when the extra slots are untagged filler rather than considerations. */
+  filler: boolean;
+  report: RoleReport;
+  score: number;
+}
+
+export interface DeckSizeComparison {
+  options: DeckSizeOption[];
+  /** Index into options of the build that best meets the objective. */
+  recommended: number;
+}
+
+const addCards = (cards: HyperCard[], additions: { card: HyperCard; copies: number }[]): HyperCard[] => {
+  const merged = cards.map(c => ({ ...c }));
+  additions.forEach(({ card, copies }) => {
+    const existing = merged.find(c => c.id === card.id);
+    if (existing) existing.copies += copies;
+    else merged.push({ ...card, copies });
+  });
+  return merged;
+};
+
+/**
+ * Every way to pick `remaining` copies from the pool, starting at `start`.
+ */
+const forEachSelection = (
+  pool: HyperCard[],
+  remaining: number,
+  visit: (selection: { card: HyperCard; copies: number }[]) => void,
+  start = 0,
+  selection: { card: HyperCard; copies: number }[] = []
+) => {
+  if (remaining === 0) {
+    visit(selection);
+    return;
+  }
+  for (let i = start; i < pool.length; i++) {
+    for (let copies = Math.min(pool[i].copies, remaining); copies >= 1; copies--) {
+      forEachSelection(pool, remaining - copies, visit, i + 1, [...selection, { card: pool[i], copies }]);
+    }
+  }
+};
+
+/**
+ * Compares the current deck with builds up to `maxExtra` cards larger. For each size it
+ * reports adding untagged filler and the best mix of considerations from `pool`, where each
+ * pool entry's copies is the most that can still legally be added. Ties go to the smaller deck.
+ */
+export const compareDeckSizes = (
+  handSize: number,
+  cards: HyperCard[],
+  pool: HyperCard[],
+  maxExtra: number,
+  objective: SizeObjective,
+  onProgress?: (fraction: number) => void
+): DeckSizeComparison => {
+  const baseSize = cards.reduce((acc, c) => acc + c.copies, 0);
+  const options: DeckSizeOption[] = [];
+  const makeOption = (deckSize: number, merged: HyperCard[], additions: DeckSizeOption['additions'], filler: boolean): DeckSizeOption => {
+    const report = calculateRoleReport(deckSize, handSize, merged);
+    return { deckSize, additions, filler, report, score: scoreReport(report, objective) };
+  };
+
+  options.push(makeOption(baseSize, cards, [], false));
+
+  const extraSlots = Math.max(0, Math.min(maxExtra, 60 - baseSize));
+  for (let extra = 1; extra <= extraSlots; extra++) {
+    onProgress?.(extra / (extraSlots + 1));
+    options.push(makeOption(baseSize + extra, cards, [], true));
+
+    let best: DeckSizeOption | null = null;
+    forEachSelection(pool, extra, selection => {
+      const option = makeOption(baseSize + extra, addCards(cards, selection), selection.map(s => ({ name: s.card.name, copies: s.copies })), false);
+      if (!best || option.score > best.score) best = option;
+    });
+    if (best) options.push(best);
+  }
+
+  const recommended = options.reduce((bestIndex, option, i) => option.score > options[bestIndex].score + 1e-9 ? i : bestIndex, 0);
+  return { options, recommended };
+};
+
+export interface RatioCandidate {
+  card: HyperCard;
+  minCopies: number;
+  maxCopies: number;
+}
+
+export interface RatioConfiguration {
+  /** Copies per candidate, in candidate order. */
+  copies: number[];
+  /** Total copies per group. */
+  groupCounts: number[];
+  probability: ExactProbability;
+}
+
+export interface RatioTuningResult {
+  configurations: RatioConfiguration[];
+  /** Distinct ratios evaluated. */
+  evaluated: number;
+}
+
+/**
+ * Searches copy counts within each candidate's range for the configurations most likely to
+ * meet every group constraint, with any remaining deck slots filled by untagged cards.
+ * Candidates carrying the same groups are interchangeable for the odds, so only their combined
+ * total is searched; within a configuration their copies are filled in candidate order.
+ */
+export const tuneRatios = (
+  deckSize: number,
+  handSize: number,
+  groups: HyperGroup[],
+  candidates: RatioCandidate[],
+  topCount: number = 10,
+  onProgress?: (fraction: number) => void
+): RatioTuningResult => {
+  const groupIds = new Set(groups.map(g => g.id));
+  const cells = new Map<string, { groupIds: string[]; members: number[]; min: number; max: number }>();
+  candidates.forEach((candidate, i) => {
+    const ids = Array.from(new Set(candidate.card.groupIds)).filter(id => groupIds.has(id)).sort();
+    const key = ids.join(',');
+    const cell = cells.get(key) || { groupIds: ids, members: [], min: 0, max: 0 };
+    cell.members.push(i);
+    cell.min += candidate.minCopies;
+    cell.max += Math.max(candidate.minCopies, candidate.maxCopies);
+    cells.set(key, cell);
+  });
+
+  // Untagged candidates are no different from filler, so they stay at their minimum
+  const untagged = cells.get('');
+  if (untagged) untagged.max = untagged.min;
+
+  const cellList = Array.from(cells.values());
+  const totalOptions = cellList.reduce((acc, c) => acc * (c.max - c.min + 1), 1);
+  const reportEvery = Math.max(1, Math.floor(totalOptions / 50));
+  const best: { totals: number[]; probability: ExactProbability }[] = [];
+  let evaluated = 0;
+  let visited = 0;
+
+  const visit = (index: number, totals: number[], used: number) => {
+    if (index === cellList.length) {
+      if (onProgress && ++visited % reportEvery === 0) onProgress(visited / totalOptions);
+      if (used > deckSize) return;
+      evaluated++;
+      const cards: HyperCard[] = cellList.map((cell, i) => ({ id: `cell-${i}`, name: cell.groupIds.join(', '), copies: totals[i], groupIds: cell.groupIds }));
+      const probability = calculateMultivariateHyper(deckSize, handSize, groups, cards);
+      if (best.length < topCount || probability.percent > best[best.length - 1].probability.percent) {
+        best.push({ totals: [...totals], probability });
+        best.sort((a, b) => b.probability.percent - a.probability.percent);
+        if (best.length > topCount) best.pop();
+      }
+      return;
+    }
+    const cell = cellList[index];
+    for (let total = cell.min; total <= cell.max; total++) {
+      totals.push(total);
+      visit(index + 1, totals, used + total);
+      totals.pop();
+    }
+  };
+  visit(0, [], 0);
+
+  const configurations = best.map(({ totals, probability }): RatioConfiguration => {
+    const copies = candidates.map(c => c.minCopies);
+    cellList.forEach((cell, i) => {
+      let remaining = totals[i] - cell.min;
+      cell.members.forEach(member => {
+        const extra = Math.min(remaining, candidates[member].maxCopies - candidates[member].minCopies);
+        if (extra <= 0) return;
+        copies[member] += extra;
+        remaining -= extra;
+      });
+    });
+    const groupCounts = groups.map(g => candidates.reduce((acc, c, i) => acc + (c.card.groupIds.includes(g.id) ? copies[i] : 0), 0));
+    return { copies, groupCounts, probability };
+  });
+
+  return { configurations, evaluated };
+};
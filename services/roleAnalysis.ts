@@ -0,0 +1,65 @@
+import { Card, CardRole, CardRoleMap } from '../types';
+import { ExactProbability, HyperCard, calculateMultivariateHyper } from './mathUtils';
+
+export const CARD_ROLES: { id: CardRole; label: string }[] = [
+  { id: 'starter', label: 'Starter' },
+  { id: 'extender', label: 'Extender' },
+  { id: 'handtrap', label: 'Hand Trap' },
+  { id: 'brick', label: 'Brick' },
+  { id: 'garnet', label: 'Garnet' }
+];
+
+export interface RoleReport {
+  deckSize: number;
+  handSize: number;
+  counts: Record<CardRole, number>;
+  /** At least one starter in hand. */
+  starterHit: ExactProbability;
+  /** Every card in hand is a brick or a garnet. */
+  allBrick: ExactProbability;
+  /** At least one garnet in hand. */
+  garnetDrawn: ExactProbability;
+  expectedHandTraps: number;
+}
+
+// Garnets are bricks too: they only count as live once drawn alongside their engine
+const BRICK_GROUP = 'brick-or-garnet';
+
+/**
+ * Turns a deck and its role tags into calculator cards, one entry per card name.
+ */
+export const buildRoleCards = (deck: Card[], roles: CardRoleMap): HyperCard[] => {
+  const copiesByName = new Map<string, number>();
+  deck.forEach(c => copiesByName.set(c.name, (copiesByName.get(c.name) || 0) + 1));
+
+  return Array.from(copiesByName.entries()).map(([name, copies]) => {
+    const cardRoles = roles[name] || [];
+    const isBrick = cardRoles.includes('brick') || cardRoles.includes('garnet');
+    return { id: name, name, copies, groupIds: isBrick ? [...cardRoles, BRICK_GROUP] : [...cardRoles] };
+  });
+};
+
+/**
+ * Opening-hand report for a role-tagged deck.
+ */
+export const calculateRoleReport = (deckSize: number, handSize: number, cards: HyperCard[]): RoleReport => {
+  const counts = CARD_ROLES.reduce((acc, role) => {
+    acc[role.id] = cards.reduce((sum, c) => sum + (c.groupIds.includes(role.id) ? c.copies : 0), 0);
+    return acc;
+  }, {} as Record<CardRole, number>);
+
+  const atLeastOne = (groupId: string) =>
+    calculateMultivariateHyper(deckSize, handSize, [{ id: groupId, name: groupId, minDesired: 1, maxDesired: handSize }], cards);
+
+  return {
+    deckSize,
+    handSize,
+    counts,
+    starterHit: atLeastOne('starter'),
+    allBrick: calculateMultivariateHyper(deckSize, handSize, [
+      { id: BRICK_GROUP, name: BRICK_GROUP, minDesired: handSize, maxDesired: handSize }
+    ], cards),
+    garnetDrawn: atLeastOne('garnet'),
+    expectedHandTraps: deckSize > 0 ? (handSize * counts.handtrap) / deckSize : 0
+  };
+};
@@ -0,0 +1,95 @@
+import { Archetype, Card, SideCardCount, SidePlan } from '../types';
+import { normalizeMatchup, resolveMatchup } from './archetypes';
+
+export type SidePlanIssue =
+  | { type: 'missing'; section: 'in' | 'out'; card: string; needed: number; available: number }
+  | { type: 'unbalanced'; cardsIn: number; cardsOut: number };
+
+const countByName = (cards: Card[]): Map<string, number> => {
+  const counts = new Map<string, number>();
+  cards.forEach(c => counts.set(c.name, (counts.get(c.name) || 0) + 1));
+  return counts;
+};
+
+const toCardCounts = (cards: Card[]): SideCardCount[] =>
+  Array.from(countByName(cards).entries()).map(([name, count]) => ({ name, count }));
+
+export const getSideCardTotal = (counts: SideCardCount[]): number => counts.reduce((acc, c) => acc + c.count, 0);
+
+export const createSidePlan = (
+  name: string,
+  matchup: string,
+  playOrder: SidePlan['playOrder'],
+  cardsIn: Card[] = [],
+  cardsOut: Card[] = []
+): SidePlan => ({
+  id: `${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+  name,
+  matchup,
+  playOrder,
+  cardsIn: toCardCounts(cardsIn),
+  cardsOut: toCardCounts(cardsOut)
+});
+
+/**
+ * Checks a plan against a deck: every card sided in must be in the side deck, every card sided
+ * out must be in the main deck, and the main deck size must not change.
+ */
+export const validateSidePlan = (plan: SidePlan, main: Card[], side: Card[]): SidePlanIssue[] => {
+  const issues: SidePlanIssue[] = [];
+  const check = (section: 'in' | 'out', counts: SideCardCount[], available: Map<string, number>) => {
+    counts.forEach(c => {
+      const have = available.get(c.name) || 0;
+      if (c.count > have) issues.push({ type: 'missing', section, card: c.name, needed: c.count, available: have });
+    });
+  };
+  check('in', plan.cardsIn, countByName(side));
+  check('out', plan.cardsOut, countByName(main));
+
+  const cardsIn = getSideCardTotal(plan.cardsIn);
+  const cardsOut = getSideCardTotal(plan.cardsOut);
+  if (cardsIn !== cardsOut) issues.push({ type: 'unbalanced', cardsIn, cardsOut });
+  return issues;
+};
+
+export const describeSidePlanIssue = (issue: SidePlanIssue): string => issue.type === 'missing'
+  ? `${issue.needed}x ${issue.card} ${issue.section === 'in' ? 'in' : 'out'}, but the ${issue.section === 'in' ? 'side' : 'main'} deck has ${issue.available}.`
+  : `${issue.cardsIn} cards in but ${issue.cardsOut} out.`;
+
+/**
+ * Main and side deck after siding. Assumes the plan validated against these decks.
+ */
+export const applySidePlan = (plan: SidePlan, main: Card[], side: Card[]): { main: Card[]; side: Card[] } => {
+  // Pulls `count` cards of a name out of the pool, returning the moved cards
+  const take = (pool: Card[], counts: SideCardCount[]): Card[] => {
+    const moved: Card[] = [];
+    counts.forEach(c => {
+      for (let i = 0; i < c.count; i++) {
+        const index = pool.findIndex(card => card.name === c.name);
+        if (index === -1) break;
+        moved.push(pool.splice(index, 1)[0]);
+      }
+    });
+    return moved;
+  };
+  const nextMain = [...main];
+  const nextSide = [...side];
+  const movingOut = take(nextMain, plan.cardsOut);
+  const movingIn = take(nextSide, plan.cardsIn);
+  return { main: nextMain.concat(movingIn), side: nextSide.concat(movingOut) };
+};
+
+/**
+ * Plans for a matchup (archetype aliases included), those for the given play order first.
+ */
+export const findSidePlans = (
+  plans: SidePlan[],
+  matchup: string,
+  archetypes: Archetype[],
+  playOrder?: SidePlan['playOrder']
+): SidePlan[] => {
+  const key = normalizeMatchup(resolveMatchup(matchup, archetypes));
+  return plans
+    .filter(p => normalizeMatchup(resolveMatchup(p.matchup, archetypes)) === key)
+    .sort((a, b) => Number(b.playOrder === playOrder) - Number(a.playOrder === playOrder) || a.name.localeCompare(b.name));
+};
@@ -0,0 +1,310 @@
+import { Card } from '../types';
+import { HyperGroup, HyperCard, HandCondition, HandPredicate, wilsonInterval } from './mathUtils';
+
+/**
+ * Seeded PRNG (mulberry32). Simulations take a seed so results are reproducible.
+ */
+export const createRng = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Invokes the callback roughly 50 times over a run of `total` steps.
+ */
+export const createProgressReporter = (total: number, onProgress?: (fraction: number) => void) => {
+  const every = Math.max(1, Math.floor(total / 50));
+  return (done: number) => {
+    if (onProgress && done % every === 0) onProgress(done / total);
+  };
+};
+
+/**
+ * Fisher-Yates shuffle driven by the given RNG.
+ */
+export const shuffleInPlace = <T>(items: T[], rng: () => number): T[] => {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+};
+
+export interface DrawEffect {
+  id: string;
+  name: string;
+  /** Cards banished face-down from the top of the Deck before drawing. */
+  banishFromDeck: number;
+  draw: number;
+  /** Cards excavated from the top of the Deck; one is added to the hand, the rest go to the bottom. */
+  excavate: number;
+  /** Cards that must leave the hand after resolving (e.g. Allure's DARK banish). */
+  discard: number;
+  oncePerTurn: boolean;
+  /** No more card draws for the rest of the turn once this resolves. */
+  locksDraws: boolean;
+}
+
+export const DRAW_EFFECT_CATALOGUE: DrawEffect[] = [
+  { id: 'upstart', name: 'Upstart Goblin', banishFromDeck: 0, draw: 1, excavate: 0, discard: 0, oncePerTurn: false, locksDraws: false },
+  { id: 'allure', name: 'Allure of Darkness', banishFromDeck: 0, draw: 2, excavate: 0, discard: 1, oncePerTurn: false, locksDraws: false },
+  { id: 'desires', name: 'Pot of Desires', banishFromDeck: 10, draw: 2, excavate: 0, discard: 0, oncePerTurn: true, locksDraws: false },
+  { id: 'extravagance', name: 'Pot of Extravagance', banishFromDeck: 0, draw: 2, excavate: 0, discard: 0, oncePerTurn: true, locksDraws: true },
+  { id: 'duality', name: 'Pot of Duality', banishFromDeck: 0, draw: 0, excavate: 3, discard: 0, oncePerTurn: true, locksDraws: false },
+  { id: 'prosperity', name: 'Pot of Prosperity', banishFromDeck: 0, draw: 0, excavate: 6, discard: 0, oncePerTurn: true, locksDraws: true }
+];
+
+export interface DrawEffectEntry {
+  effectId: string;
+  copies: number;
+}
+
+export interface DrawSimulationResult {
+  trials: number;
+  /** Success rate (0-100) of the raw opening hand. */
+  baselineProbability: number;
+  /** Success rate (0-100) after resolving the draw effects. */
+  probability: number;
+}
+
+// Pile encoding: index into `cards` for tracked cards, cards.length + k for effect k, -1 for untracked filler.
+const OTHER = -1;
+
+/**
+ * Estimates the chance of a successful hand once the draw/excavate spells in it are resolved.
+ * Effects that keep drawing open are played before ones that lock draws, and play stops as soon
+ * as the hand already succeeds. Excavations pick the first revealed card that completes the hand,
+ * otherwise the card counting towards the most groups.
+ */
+export const simulateDrawEffects = (
+  deckSize: number,
+  handSize: number,
+  groups: HyperGroup[],
+  cards: HyperCard[],
+  entries: DrawEffectEntry[],
+  predicate: HandPredicate,
+  trials: number,
+  seed: number,
+  onProgress?: (fraction: number) => void
+): DrawSimulationResult | null => {
+  const effects = entries
+    .map(e => ({ effect: DRAW_EFFECT_CATALOGUE.find(d => d.id === e.effectId), copies: e.copies }))
+    .filter((e): e is { effect: DrawEffect; copies: number } => !!e.effect && e.copies > 0);
+
+  const trackedTotal = cards.reduce((acc, c) => acc + Math.max(0, c.copies), 0);
+  const effectTotal = effects.reduce((acc, e) => acc + e.copies, 0);
+  if (handSize <= 0 || handSize > deckSize || trackedTotal + effectTotal > deckSize || trials <= 0) return null;
+
+  const indexById = new Map(groups.map((g, i) => [g.id, i]));
+  const cardGroups = cards.map(c => Array.from(new Set(c.groupIds)).filter(id => indexById.has(id)).map(id => indexById.get(id)!));
+  const effectBase = cards.length;
+
+  const deck: number[] = [];
+  cards.forEach((c, i) => { for (let n = 0; n < c.copies; n++) deck.push(i); });
+  effects.forEach((e, k) => { for (let n = 0; n < e.copies; n++) deck.push(effectBase + k); });
+  while (deck.length < deckSize) deck.push(OTHER);
+
+  // Effects that leave draws open resolve first, then catalogue order
+  const effectOrder = effects
+    .map((e, k) => ({ k, rank: (e.effect.locksDraws ? 1000 : 0) + DRAW_EFFECT_CATALOGUE.indexOf(e.effect) }))
+    .sort((a, b) => a.rank - b.rank)
+    .map(e => e.k);
+
+  const passes = (hand: number[]) => {
+    const groupCounts: number[] = new Array(groups.length).fill(0);
+    hand.forEach(c => {
+      if (c >= 0 && c < effectBase) cardGroups[c].forEach(i => { groupCounts[i]++; });
+    });
+    return predicate(groupCounts);
+  };
+
+  // Lower is more expendable: filler, then spent-able effects, then tracked cards by group count
+  const usefulness = (c: number) => (c === OTHER ? 0 : c >= effectBase ? 1 : 2 + cardGroups[c].length);
+
+  const rng = createRng(seed);
+  const reportProgress = createProgressReporter(trials, onProgress);
+  let baselineSuccesses = 0;
+  let successes = 0;
+
+  for (let t = 0; t < trials; t++) {
+    reportProgress(t);
+    const pile = shuffleInPlace([...deck], rng);
+    const hand = pile.slice(0, handSize);
+    let top = handSize;
+    let locked = false;
+    const used = new Set<number>();
+
+    if (passes(hand)) {
+      baselineSuccesses++;
+      successes++;
+      continue;
+    }
+
+    while (!passes(hand)) {
+      let position = -1;
+      for (const k of effectOrder) {
+        const { effect } = effects[k];
+        if (effect.oncePerTurn && used.has(k)) continue;
+        if (locked && effect.draw > 0) continue;
+        if (pile.length - top < effect.banishFromDeck + effect.draw + effect.excavate) continue;
+        position = hand.indexOf(effectBase + k);
+        if (position !== -1) break;
+      }
+      if (position === -1) break;
+
+      const k = hand[position] - effectBase;
+      const { effect } = effects[k];
+      hand.splice(position, 1);
+      used.add(k);
+
+      top += effect.banishFromDeck;
+      if (effect.draw > 0) {
+        hand.push(...pile.slice(top, top + effect.draw));
+        top += effect.draw;
+      }
+      if (effect.excavate > 0) {
+        const revealed = pile.splice(top, effect.excavate);
+        let pick = revealed.findIndex(c => passes([...hand, c]));
+        if (pick === -1) {
+          pick = revealed.reduce((best, c, i) => usefulness(c) > usefulness(revealed[best]) ? i : best, 0);
+        }
+        hand.push(revealed[pick]);
+        pile.push(...revealed.filter((_, i) => i !== pick));
+      }
+      for (let d = 0; d < effect.discard && hand.length > 0; d++) {
+        const worst = hand.reduce((best, c, i) => usefulness(c) < usefulness(hand[best]) ? i : best, 0);
+        hand.splice(worst, 1);
+      }
+      if (effect.locksDraws) locked = true;
+    }
+
+    if (passes(hand)) successes++;
+  }
+
+  return {
+    trials,
+    baselineProbability: (baselineSuccesses / trials) * 100,
+    probability: (successes / trials) * 100
+  };
+};
+
+export interface HandRuleClause {
+  cardNames: string[];
+  min: number;
+  max: number;
+  /** Count different card names instead of copies (e.g. "2 different starters"). */
+  distinct: boolean;
+}
+
+/**
+ * A user-defined success rule: every clause must hold. A hand succeeds if any rule does.
+ */
+export interface HandRule {
+  id: string;
+  name: string;
+  clauses: HandRuleClause[];
+}
+
+export interface SampleHand {
+  cards: Card[];
+  success: boolean;
+}
+
+export interface MonteCarloResult {
+  trials: number;
+  successes: number;
+  probability: number;
+  confidence: { lower: number; upper: number };
+  sampleHands: SampleHand[];
+}
+
+const clausePasses = (clause: HandRuleClause, hand: Card[]) => {
+  const matching = hand.filter(c => clause.cardNames.includes(c.name));
+  const count = clause.distinct ? new Set(matching.map(c => c.name)).size : matching.length;
+  return count >= clause.min && count <= clause.max;
+};
+
+export const handPassesRules = (hand: Card[], rules: HandRule[]): boolean =>
+  rules.some(rule => rule.clauses.length > 0 && rule.clauses.every(clause => clausePasses(clause, hand)));
+
+/**
+ * Deals `trials` shuffled hands from the deck and estimates how often the rules pass.
+ * The first `sampleCount` hands are kept for display.
+ */
+export const runMonteCarlo = (
+  deck: Card[],
+  handSize: number,
+  rules: HandRule[],
+  trials: number,
+  seed: number,
+  sampleCount: number = 12,
+  onProgress?: (fraction: number) => void
+): MonteCarloResult | null => {
+  if (handSize <= 0 || handSize > deck.length || trials <= 0) return null;
+
+  const rng = createRng(seed);
+  const pile = [...deck];
+  const sampleHands: SampleHand[] = [];
+  const reportProgress = createProgressReporter(trials, onProgress);
+  let successes = 0;
+
+  for (let t = 0; t < trials; t++) {
+    reportProgress(t);
+    // Only the top handSize positions need shuffling to deal a uniform hand
+    for (let i = 0; i < handSize; i++) {
+      const j = i + Math.floor(rng() * (pile.length - i));
+      [pile[i], pile[j]] = [pile[j], pile[i]];
+    }
+    const hand = pile.slice(0, handSize);
+    const success = handPassesRules(hand, rules);
+    if (success) successes++;
+    if (sampleHands.length < sampleCount) sampleHands.push({ cards: hand, success });
+  }
+
+  return {
+    trials,
+    successes,
+    probability: (successes / trials) * 100,
+    confidence: wilsonInterval(successes, trials),
+    sampleHands
+  };
+};
+
+/**
+ * Expresses copy-counting rules as groups, tagged cards and conditions so the exact
+ * calculator can cross-check the simulation. Returns null when a clause counts distinct
+ * names, which the exact model cannot represent.
+ */
+export const rulesToExactModel = (
+  deck: Card[],
+  rules: HandRule[]
+): { groups: HyperGroup[]; cards: HyperCard[]; conditions: HandCondition[] } | null => {
+  const clauses = rules.flatMap(r => r.clauses);
+  if (clauses.some(c => c.distinct)) return null;
+
+  const groups: HyperGroup[] = clauses.map((_, i) => ({ id: `clause-${i}`, name: `Clause ${i + 1}`, minDesired: 0, maxDesired: deck.length }));
+
+  const copiesByName = new Map<string, number>();
+  deck.forEach(c => copiesByName.set(c.name, (copiesByName.get(c.name) || 0) + 1));
+  const cards: HyperCard[] = Array.from(copiesByName.entries()).map(([name, copies]) => ({
+    id: name,
+    name,
+    copies,
+    groupIds: clauses.flatMap((clause, i) => clause.cardNames.includes(name) ? [`clause-${i}`] : [])
+  }));
+
+  let clauseIndex = 0;
+  const conditions: HandCondition[] = rules.map(rule => ({
+    id: rule.id,
+    name: rule.name,
+    requirements: rule.clauses.map(clause => ({ groupId: `clause-${clauseIndex++}`, min: clause.min, max: clause.max }))
+  }));
+
+  return { groups, cards, conditions };
+};
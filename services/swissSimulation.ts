@@ -0,0 +1,422 @@
+import { createRng, shuffleInPlace, createProgressReporter } from './simulation';
+
+export const MATCH_POINTS = { win: 3, draw: 1, loss: 0 };
+
+/**
+ * Floor for a player's match-win percentage when it feeds an opponent's tiebreakers, so a
+ * winless or dropped opponent does not sink everyone they played.
+ */
+export const MIN_MATCH_WIN_PERCENTAGE = 1 / 3;
+
+export interface MatchRecord {
+  wins: number;
+  losses: number;
+  draws: number;
+}
+
+export const getMatchPoints = (record: MatchRecord): number =>
+  record.wins * MATCH_POINTS.win + record.draws * MATCH_POINTS.draw + record.losses * MATCH_POINTS.loss;
+
+/**
+ * Match points earned as a share (0-1) of the points available, floored for tiebreaker use.
+ */
+export const getMatchWinPercentage = (record: MatchRecord): number => {
+  const matches = record.wins + record.losses + record.draws;
+  if (matches === 0) return MIN_MATCH_WIN_PERCENTAGE;
+  return Math.max(MIN_MATCH_WIN_PERCENTAGE, getMatchPoints(record) / (matches * MATCH_POINTS.win));
+};
+
+/**
+ * Opponents' match-win percentage (0-1): the average of each opponent's floored percentage.
+ */
+export const getOpponentMatchWinPercentage = (opponents: MatchRecord[]): number | null =>
+  opponents.length > 0 ? opponents.reduce((acc, o) => acc + getMatchWinPercentage(o), 0) / opponents.length : null;
+
+/**
+ * How a phase decides who plays on: everyone on at least `value` points, or the top `value`
+ * players in the standings.
+ */
+export interface PhaseCut {
+  type: 'points' | 'rank';
+  value: number;
+}
+
+/**
+ * One stretch of Swiss rounds, e.g. Day 1. Points and opponents carry over between phases.
+ */
+export interface EventPhase {
+  id: string;
+  name: string;
+  rounds: number;
+  cut: PhaseCut;
+}
+
+export interface SwissConfig {
+  players: number;
+  phases: EventPhase[];
+  /** Chance (0-1) that a played match ends in a draw, e.g. on time. */
+  drawRate: number;
+  /**
+   * Final rounds of each phase in which two paired players take an intentional draw when it
+   * keeps them both through the cut: for a points cut, drawing out reaches the threshold; for a
+   * rank cut, both already rank inside it.
+   */
+  idRounds: number;
+}
+
+export const getTotalRounds = (phases: EventPhase[]): number => phases.reduce((acc, p) => acc + p.rounds, 0);
+
+interface SwissPlayer extends MatchRecord {
+  points: number;
+  opponents: number[];
+  hadBye: boolean;
+  /** Opponents' match-win percentage, filled in once the Swiss is over. */
+  omw: number;
+  /** Opponents' opponents' match-win percentage. */
+  oomw: number;
+}
+
+/**
+ * The user's own finish, to place against each simulated field. Without OMW the user is
+ * seated at random among the players on the same points.
+ */
+export interface SwissEntrant {
+  points: number;
+  omw: number | null;
+}
+
+export interface SwissRecordOutcome {
+  wins: number;
+  losses: number;
+  draws: number;
+  points: number;
+  /** Average number of players ending the phase on this record. */
+  players: number;
+  /** Average number of those players making the phase's cut. */
+  inCut: number;
+  /** Chance (0-100) that a player ending the phase on this record makes its cut. */
+  cutRate: number;
+  /** Chance (0-100) that a player ending the phase on this record makes the event's final cut. */
+  finalCutRate: number;
+}
+
+/**
+ * Results for one phase, in the order of the configured phases. Names aren't part of the result,
+ * since the task cache ignores them.
+ */
+export interface PhaseOutcome {
+  /** Average number of players starting the phase. */
+  entrants: number;
+  /** Average number of players making the phase's cut. */
+  advancing: number;
+  records: SwissRecordOutcome[];
+  /** For rank cuts, how often (0-100) the last seat was at each point total, and that seat's average OMW (0-1). */
+  cutLine: { points: number; frequency: number; averageOmw: number }[];
+}
+
+export interface SwissSimulationResult {
+  iterations: number;
+  phases: PhaseOutcome[];
+  /** Chance (0-100) that the entrant makes the final cut, or null without an entrant. */
+  entrantCutChance: number | null;
+}
+
+const recordPlayer = (player: MatchRecord & { points: number }, result: 'win' | 'draw' | 'loss') => {
+  if (result === 'win') player.wins++;
+  else if (result === 'draw') player.draws++;
+  else player.losses++;
+  player.points += MATCH_POINTS[result];
+};
+
+/**
+ * Pairs the active players by points for one round, shuffling within a score group. With an
+ * odd count the lowest-ranked player without a bye gets one. Rematches are avoided where possible
+ * by pairing down to the next opponent not yet played. Returns the pairings and the bye, if any.
+ */
+const pairRound = (players: SwissPlayer[], active: number[], rng: () => number): { order: number[]; pairs: [number, number][]; bye: number | null } => {
+  const order = shuffleInPlace([...active], rng).sort((a, b) => players[b].points - players[a].points);
+  const paired = new Array<boolean>(order.length).fill(false);
+
+  let bye: number | null = null;
+  if (order.length % 2 === 1) {
+    let index = order.length - 1;
+    while (index > 0 && players[order[index]].hadBye) index--;
+    paired[index] = true;
+    bye = order[index];
+  }
+
+  const pairs: [number, number][] = [];
+  for (let i = 0; i < order.length; i++) {
+    if (paired[i]) continue;
+    paired[i] = true;
+    const a = order[i];
+    let fallback = -1;
+    let match = -1;
+    for (let j = i + 1; j < order.length; j++) {
+      if (paired[j]) continue;
+      if (fallback === -1) fallback = j;
+      if (!players[a].opponents.includes(order[j])) {
+        match = j;
+        break;
+      }
+    }
+    if (match === -1) match = fallback;
+    if (match === -1) break;
+    paired[match] = true;
+    pairs.push([a, order[match]]);
+  }
+  return { order, pairs, bye };
+};
+
+const assignTiebreakers = (players: SwissPlayer[]) => {
+  const matchWin = players.map(getMatchWinPercentage);
+  const average = (values: number[]) => values.length > 0 ? values.reduce((acc, v) => acc + v, 0) / values.length : 0;
+  players.forEach(p => { p.omw = average(p.opponents.map(o => matchWin[o])); });
+  players.forEach(p => { p.oomw = average(p.opponents.map(o => players[o].omw)); });
+};
+
+const compareStandings = (players: SwissPlayer[]) => (a: number, b: number) =>
+  players[b].points - players[a].points || players[b].omw - players[a].omw || players[b].oomw - players[a].oomw;
+
+/**
+ * Simulates the event `iterations` times with every match a coin flip (bar draws), phase by
+ * phase, and reports how each record fared against each cut. Byes count as wins. Standings
+ * order players by points, then OMW, then OOMW, then at random; the last phase's cut is the
+ * event's final cut.
+ */
+export const simulateSwiss = (
+  config: SwissConfig,
+  iterations: number,
+  seed: number,
+  entrant?: SwissEntrant,
+  onProgress?: (fraction: number) => void
+): SwissSimulationResult | null => {
+  const { players: playerCount, phases, drawRate, idRounds } = config;
+  if (playerCount < 2 || phases.length === 0 || phases.some(p => p.rounds <= 0 || p.cut.value <= 0) || iterations <= 0) return null;
+
+  const rng = createRng(seed);
+  const reportProgress = createProgressReporter(iterations, onProgress);
+  const phaseStats = phases.map(() => ({
+    entrants: 0,
+    advancing: 0,
+    records: new Map<string, SwissRecordOutcome>(),
+    cutLine: new Map<number, { count: number; omw: number }>()
+  }));
+  let entrantCuts = 0;
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    reportProgress(iteration);
+    const players: SwissPlayer[] = Array.from({ length: playerCount }, () => ({ wins: 0, losses: 0, draws: 0, points: 0, opponents: [], hadBye: false, omw: 0, oomw: 0 }));
+    let active = players.map((_, i) => i);
+    // Record keys each player ended each phase on, credited once the final cut is known
+    const phaseKeys: Map<number, string>[] = [];
+
+    for (let phaseIndex = 0; phaseIndex < phases.length && active.length > 0; phaseIndex++) {
+      const phase = phases[phaseIndex];
+      const stats = phaseStats[phaseIndex];
+      stats.entrants += active.length;
+
+      for (let round = 1; round <= phase.rounds; round++) {
+        const { order, pairs, bye } = pairRound(players, active, rng);
+        if (bye !== null) {
+          players[bye].hadBye = true;
+          recordPlayer(players[bye], 'win');
+        }
+
+        const rank = new Map(order.map((p, i) => [p, i]));
+        const roundsLeft = phase.rounds - round + 1;
+        const safeWithDraws = (p: number) => phase.cut.type === 'points'
+          ? players[p].points + roundsLeft * MATCH_POINTS.draw >= phase.cut.value
+          : rank.get(p)! < phase.cut.value;
+        pairs.forEach(([a, b]) => {
+          players[a].opponents.push(b);
+          players[b].opponents.push(a);
+          const intentionalDraw = roundsLeft <= idRounds && safeWithDraws(a) && safeWithDraws(b);
+          if (intentionalDraw || rng() < drawRate) {
+            recordPlayer(players[a], 'draw');
+            recordPlayer(players[b], 'draw');
+          } else if (rng() < 0.5) {
+            recordPlayer(players[a], 'win');
+            recordPlayer(players[b], 'loss');
+          } else {
+            recordPlayer(players[a], 'loss');
+            recordPlayer(players[b], 'win');
+          }
+        });
+      }
+
+      assignTiebreakers(players);
+      const standings = shuffleInPlace([...active], rng).sort(compareStandings(players));
+      const advancing = phase.cut.type === 'points'
+        ? standings.filter(p => players[p].points >= phase.cut.value)
+        : standings.slice(0, Math.min(phase.cut.value, standings.length));
+      const advanced = new Set(advancing);
+      stats.advancing += advancing.length;
+
+      if (phase.cut.type === 'rank' && advancing.length > 0) {
+        const lastSeat = players[advancing[advancing.length - 1]];
+        const line = stats.cutLine.get(lastSeat.points) || { count: 0, omw: 0 };
+        stats.cutLine.set(lastSeat.points, { count: line.count + 1, omw: line.omw + lastSeat.omw });
+      }
+
+      const keys = new Map<number, string>();
+      standings.forEach(p => {
+        const { wins, losses, draws, points } = players[p];
+        const key = `${wins}-${losses}-${draws}`;
+        const outcome = stats.records.get(key) || { wins, losses, draws, points, players: 0, inCut: 0, cutRate: 0, finalCutRate: 0 };
+        outcome.players++;
+        if (advanced.has(p)) outcome.inCut++;
+        stats.records.set(key, outcome);
+        keys.set(p, key);
+      });
+      phaseKeys.push(keys);
+
+      if (entrant && phaseIndex === phases.length - 1) {
+        // The entrant takes a uniformly random seat among the players they cannot be separated from
+        const field = standings.map(p => players[p]);
+        const ahead = field.filter(p => p.points > entrant.points || (p.points === entrant.points && entrant.omw !== null && p.omw > entrant.omw)).length;
+        const tied = field.filter(p => p.points === entrant.points && (entrant.omw === null || p.omw === entrant.omw)).length;
+        const seats = phase.cut.type === 'points' ? (entrant.points >= phase.cut.value ? field.length + 1 : 0) : phase.cut.value;
+        entrantCuts += Math.min(1, Math.max(0, (seats - ahead) / (tied + 1)));
+      }
+
+      active = advancing;
+    }
+
+    // Whoever survived the last phase made the final cut
+    const finalists = phaseKeys.length === phases.length ? new Set(active) : new Set<number>();
+    phaseKeys.forEach((keys, phaseIndex) => {
+      keys.forEach((key, p) => {
+        if (finalists.has(p)) phaseStats[phaseIndex].records.get(key)!.finalCutRate++;
+      });
+    });
+  }
+
+  return {
+    iterations,
+    phases: phases.map((_, i) => {
+      const stats = phaseStats[i];
+      return {
+        entrants: stats.entrants / iterations,
+        advancing: stats.advancing / iterations,
+        records: Array.from(stats.records.values())
+          .map(r => ({ ...r, players: r.players / iterations, inCut: r.inCut / iterations, cutRate: (r.inCut / r.players) * 100, finalCutRate: (r.finalCutRate / r.players) * 100 }))
+          .sort((a, b) => b.points - a.points || b.wins - a.wins),
+        cutLine: Array.from(stats.cutLine.entries())
+          .map(([points, line]) => ({ points, frequency: (line.count / iterations) * 100, averageOmw: line.omw / line.count }))
+          .sort((a, b) => b.points - a.points)
+      };
+    }),
+    entrantCutChance: entrant ? (entrantCuts / iterations) * 100 : null
+  };
+};
+
+export interface IdAdvisorInput {
+  players: number;
+  rounds: number;
+  topCut: number;
+  /** The user's record so far. */
+  record: MatchRecord;
+  /** The user's chance (0-1) of winning a played-out round. */
+  winRate: number;
+  /** Chance (0-1) that any other played match ends in a draw. */
+  drawRate: number;
+  /** Final rounds in which other tables take intentional draws when both players rank inside the cut. */
+  idRounds: number;
+}
+
+export interface IdStrategyOutcome {
+  label: string;
+  /** Rounds in which the user takes an intentional draw. */
+  drawRounds: number[];
+  /** Chance (0-100) of making the cut with this plan. */
+  cutChance: number;
+}
+
+/**
+ * Compares playing out every remaining round against taking an intentional draw in each one
+ * (and in all of them). Every plan replays the same simulated events, so the differences come
+ * from the plan rather than from noise. The user's earlier results are dealt in a random order.
+ */
+export const adviseIntentionalDraws = (
+  input: IdAdvisorInput,
+  iterations: number,
+  seed: number,
+  onProgress?: (fraction: number) => void
+): IdStrategyOutcome[] | null => {
+  const { players: playerCount, rounds, topCut, record, winRate, drawRate, idRounds } = input;
+  const played = record.wins + record.losses + record.draws;
+  const remaining = rounds - played;
+  if (playerCount < 2 || topCut <= 0 || remaining <= 0 || iterations <= 0) return null;
+
+  const remainingRounds = Array.from({ length: remaining }, (_, i) => played + i + 1);
+  const plans: { label: string; drawRounds: number[] }[] = [
+    { label: 'Play out', drawRounds: [] },
+    ...remainingRounds.map(r => ({ label: `ID round ${r}`, drawRounds: [r] })),
+    ...(remaining > 1 ? [{ label: 'ID every round', drawRounds: remainingRounds }] : [])
+  ];
+  const cuts = plans.map(() => 0);
+
+  const seeds = createRng(seed);
+  const reportProgress = createProgressReporter(iterations, onProgress);
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    reportProgress(iteration);
+    const eventSeed = Math.floor(seeds() * 4294967296);
+
+    plans.forEach((plan, planIndex) => {
+      const rng = createRng(eventSeed);
+      const history = shuffleInPlace([
+        ...Array<'win'>(record.wins).fill('win'),
+        ...Array<'loss'>(record.losses).fill('loss'),
+        ...Array<'draw'>(record.draws).fill('draw')
+      ], rng);
+      const players: SwissPlayer[] = Array.from({ length: playerCount }, () => ({ wins: 0, losses: 0, draws: 0, points: 0, opponents: [], hadBye: false, omw: 0, oomw: 0 }));
+      const active = players.map((_, i) => i);
+      const you = 0;
+
+      for (let round = 1; round <= rounds; round++) {
+        const { order, pairs, bye } = pairRound(players, active, rng);
+        if (bye !== null) {
+          players[bye].hadBye = true;
+          recordPlayer(players[bye], bye === you && round <= played ? history[round - 1] : 'win');
+        }
+
+        const rank = new Map(order.map((p, i) => [p, i]));
+        const idRound = round > rounds - idRounds;
+        pairs.forEach(([a, b]) => {
+          players[a].opponents.push(b);
+          players[b].opponents.push(a);
+          const roll = rng();
+          const flip = rng();
+          if (a === you || b === you) {
+            const opponent = a === you ? b : a;
+            const result = round <= played
+              ? history[round - 1]
+              : plan.drawRounds.includes(round) ? 'draw' : roll < winRate ? 'win' : 'loss';
+            recordPlayer(players[you], result);
+            recordPlayer(players[opponent], result === 'win' ? 'loss' : result === 'loss' ? 'win' : 'draw');
+            return;
+          }
+          const intentionalDraw = idRound && rank.get(a)! < topCut && rank.get(b)! < topCut;
+          if (intentionalDraw || roll < drawRate) {
+            recordPlayer(players[a], 'draw');
+            recordPlayer(players[b], 'draw');
+          } else if (flip < 0.5) {
+            recordPlayer(players[a], 'win');
+            recordPlayer(players[b], 'loss');
+          } else {
+            recordPlayer(players[a], 'loss');
+            recordPlayer(players[b], 'win');
+          }
+        });
+      }
+
+      assignTiebreakers(players);
+      const standings = shuffleInPlace([...active], rng).sort(compareStandings(players));
+      if (standings.indexOf(you) < topCut) cuts[planIndex]++;
+    });
+  }
+
+  return plans.map((plan, i) => ({ ...plan, cutChance: (cuts[i] / iterations) * 100 }));
+};
@@ -0,0 +1,58 @@
+import { TournamentEvent, TournamentMetadata, TournamentReport } from '../types';
+
+const toDateString = (timestamp: number) => new Date(timestamp).toISOString().slice(0, 10);
+
+export const createTournament = (
+  metadata: TournamentMetadata = { eventName: '', deckName: '' },
+  reports: TournamentReport[] = []
+): TournamentEvent => {
+  const firstRound = reports.length > 0 ? Math.min(...reports.map(r => r.timestamp)) : Date.now();
+  return {
+    id: Date.now().toString(),
+    metadata,
+    reports,
+    date: toDateString(firstRound),
+    format: 'Advanced',
+    placement: '',
+    archived: false,
+    createdAt: Date.now()
+  };
+};
+
+const parseLegacy = <T>(value: string | null): T | undefined => {
+  if (!value) return undefined;
+  try {
+    return JSON.parse(value);
+  } catch (error) {
+    console.error("Failed to read legacy tournament data", error);
+    return undefined;
+  }
+};
+
+/**
+ * Restores the library and the active event. Data saved before the library existed (a single
+ * tracker session) becomes its first event; an empty library starts with a blank event.
+ * `migrated` is true when legacy data was read, so the caller can save the library before
+ * deleting it.
+ */
+export const loadTournamentLibrary = (
+  savedLibrary: string | null,
+  savedActiveId: string | null,
+  legacyReports: string | null,
+  legacyMetadata: string | null
+): { tournaments: TournamentEvent[]; activeId: string; migrated: boolean } => {
+  let tournaments: TournamentEvent[] = savedLibrary ? JSON.parse(savedLibrary) : [];
+  let migrated = false;
+  if (tournaments.length === 0) {
+    const reports = parseLegacy<TournamentReport[]>(legacyReports);
+    const metadata = parseLegacy<TournamentMetadata>(legacyMetadata);
+    if (reports || metadata) {
+      tournaments = [createTournament(metadata, reports)];
+      migrated = true;
+    }
+  }
+  if (tournaments.length === 0) tournaments = [createTournament()];
+
+  const active = tournaments.find(t => t.id === savedActiveId) || tournaments.find(t => !t.archived) || tournaments[0];
+  return { tournaments, activeId: active.id, migrated };
+};
@@ -0,0 +1,141 @@
+import { Archetype, GameReport, MatchResult, TournamentReport } from '../types';
+import { wilsonInterval } from './mathUtils';
+import { findArchetype, normalizeMatchup } from './archetypes';
+
+export const GAMES_TO_WIN = 2;
+
+/**
+ * Match result from its games: the first to two game wins takes the match. If time was called
+ * first, the player ahead in games wins and an even score is a draw; otherwise the match is
+ * still unfinished.
+ */
+export const rollUpMatchResult = (games: GameReport[], timeCalled: boolean): MatchResult => {
+  const wins = games.filter(g => g.result === 'win').length;
+  const losses = games.filter(g => g.result === 'loss').length;
+  if (wins >= GAMES_TO_WIN) return 'win';
+  if (losses >= GAMES_TO_WIN) return 'loss';
+  if (!timeCalled) return 'unfinished';
+  return wins > losses ? 'win' : losses > wins ? 'loss' : 'draw';
+};
+
+/**
+ * Game score such as "2-1", or "2-1-1" when a game was drawn.
+ */
+export const formatGameScore = (games: GameReport[]): string => {
+  const wins = games.filter(g => g.result === 'win').length;
+  const losses = games.filter(g => g.result === 'loss').length;
+  const draws = games.filter(g => g.result === 'draw').length;
+  return draws > 0 ? `${wins}-${losses}-${draws}` : `${wins}-${losses}`;
+};
+
+export interface MatchupRecord {
+  matchup: string;
+  wins: number;
+  losses: number;
+  draws: number;
+  /** Finished matches; unfinished ones are left out of every count. */
+  matches: number;
+  /** Match win rate (0-100), with draws counting as matches not won. */
+  winRate: number;
+}
+
+const toRecord = (matchup: string, reports: TournamentReport[]): MatchupRecord => {
+  const wins = reports.filter(r => r.result === 'win').length;
+  const losses = reports.filter(r => r.result === 'loss').length;
+  const draws = reports.filter(r => r.result === 'draw').length;
+  const matches = wins + losses + draws;
+  return { matchup, wins, losses, draws, matches, winRate: matches > 0 ? (wins / matches) * 100 : 0 };
+};
+
+/**
+ * Overall match record across the given reports.
+ */
+export const getOverallRecord = (reports: TournamentReport[]): MatchupRecord => toRecord('Overall', reports);
+
+// Reports per archetype from the dictionary, or per normalized name (first spelling kept) otherwise
+const groupByMatchup = (reports: TournamentReport[], archetypes: Archetype[]): { name: string; reports: TournamentReport[] }[] => {
+  const byMatchup = new Map<string, { name: string; reports: TournamentReport[] }>();
+  reports.forEach(r => {
+    const archetype = findArchetype(r.matchup, archetypes);
+    const key = archetype ? `archetype:${archetype.id}` : normalizeMatchup(r.matchup);
+    const entry = byMatchup.get(key) || { name: archetype?.name ?? (r.matchup.trim() || 'Unknown'), reports: [] };
+    entry.reports.push(r);
+    byMatchup.set(key, entry);
+  });
+  return Array.from(byMatchup.values());
+};
+
+/**
+ * Match record per opponent deck, grouped by archetype (aliases included) or else by normalized
+ * matchup name. Sorted by matches played.
+ */
+export const getMatchupRecords = (reports: TournamentReport[], archetypes: Archetype[] = []): MatchupRecord[] =>
+  groupByMatchup(reports, archetypes)
+    .map(entry => toRecord(entry.name, entry.reports))
+    .sort((a, b) => b.matches - a.matches || a.matchup.localeCompare(b.matchup));
+
+export interface RateStat {
+  wins: number;
+  /** Sample size: matches or games, depending on the stat. */
+  total: number;
+  /** Win rate (0-100). */
+  rate: number;
+  /** 95% Wilson interval (0-100). */
+  lower: number;
+  upper: number;
+}
+
+const toRateStat = (wins: number, total: number): RateStat => ({
+  wins,
+  total,
+  rate: total > 0 ? (wins / total) * 100 : 0,
+  ...wilsonInterval(wins, total)
+});
+
+export interface MatchupAnalytics {
+  record: MatchupRecord;
+  /** Match wins over finished matches. */
+  matchWin: RateStat;
+  /** Game wins over logged games, by play order. Matches logged without games are left out. */
+  goingFirst: RateStat;
+  goingSecond: RateStat;
+  /** Match wins over finished matches, by dice roll. */
+  wonRoll: RateStat;
+  lostRoll: RateStat;
+}
+
+const toAnalytics = (matchup: string, reports: TournamentReport[]): MatchupAnalytics => {
+  const record = toRecord(matchup, reports);
+  const finished = reports.filter(r => r.result !== 'unfinished');
+  const games = reports.flatMap(r => r.games || []);
+  const gameStat = (wentFirst: boolean) => {
+    const played = games.filter(g => g.wentFirst === wentFirst);
+    return toRateStat(played.filter(g => g.result === 'win').length, played.length);
+  };
+  const rollStat = (wonDiceRoll: boolean) => {
+    const matches = finished.filter(r => r.wonDiceRoll === wonDiceRoll);
+    return toRateStat(matches.filter(r => r.result === 'win').length, matches.length);
+  };
+  return {
+    record,
+    matchWin: toRateStat(record.wins, record.matches),
+    goingFirst: gameStat(true),
+    goingSecond: gameStat(false),
+    wonRoll: rollStat(true),
+    lostRoll: rollStat(false)
+  };
+};
+
+/**
+ * Win rates with confidence intervals across every given report.
+ */
+export const getOverallAnalytics = (reports: TournamentReport[]): MatchupAnalytics => toAnalytics('Overall', reports);
+
+/**
+ * Win rates with confidence intervals per matchup, grouped as in getMatchupRecords. Sorted by
+ * matches played.
+ */
+export const getMatchupAnalytics = (reports: TournamentReport[], archetypes: Archetype[] = []): MatchupAnalytics[] =>
+  groupByMatchup(reports, archetypes)
+    .map(entry => toAnalytics(entry.name, entry.reports))
+    .sort((a, b) => b.record.matches - a.record.matches || a.record.matchup.localeCompare(b.record.matchup));
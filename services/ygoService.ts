@@ -88,6 +88,55 @@ export const fetchCardData = async (ids: number[]): Promise<Card[]> => {
   return ids.map(id => cardCache.get(id)).filter((c): c is Card => !!c);
 };
 
+/**
+ * Looks cards up by exact name (case-insensitive). Names the database doesn't know are left out
+ * of the returned map, which is keyed by lowercased name.
+ */
+export const fetchCardsByName = async (names: string[]): Promise<Map<string, Card>> => {
+  const toKey = (name: string) => name.trim().toLowerCase();
+  const found = new Map<string, Card>();
+  const wanted = new Set(names.map(toKey).filter(Boolean));
+  cardCache.forEach(card => { if (wanted.has(toKey(card.name))) found.set(toKey(card.name), card); });
+
+  const missing = Array.from(new Set(names.map(n => n.trim()).filter(n => n && !found.has(toKey(n)))));
+  const request = async (batch: string[]): Promise<Card[] | null> => {
+    const response = await fetch(`${API_BASE}?name=${encodeURIComponent(batch.join('|'))}&misc=yes`);
+    const data = await response.json();
+    return data.data || null;
+  };
+
+  const store = (cards: Card[]) => cards.forEach(card => {
+    cardCache.set(card.id, card);
+    found.set(toKey(card.name), card);
+  });
+
+  const CHUNK_SIZE = 20;
+  for (let i = 0; i < missing.length; i += CHUNK_SIZE) {
+    const chunk = missing.slice(i, i + CHUNK_SIZE);
+    try {
+      const cards = await request(chunk);
+      if (cards) {
+        store(cards);
+        continue;
+      }
+      // The API rejects a whole batch over one unknown name. Retry one name at a time to stay under its rate limit
+      for (const name of chunk) {
+        store(await request([name]) ?? []);
+      }
+    } catch (error) {
+      console.error("Failed to fetch cards by name", error);
+    }
+  }
+  if (missing.length > 0) savePersistentCache();
+
+  return found;
+};
+
+export const isExtraDeckCard = (card: Card): boolean => {
+  const types = ['Fusion', 'Synchro', 'XYZ', 'Link', 'Token'];
+  return types.some(t => card.type.toUpperCase().includes(t.toUpperCase()));
+};
+
 export const parseYDK = (content: string): DeckData => {
   const lines = content.split('\n').map(l => l.trim());
   const deck: DeckData = { main: [], extra: [], side: [] };
@@ -117,6 +166,16 @@ export const parseYDK = (content: string): DeckData => {
   return deck;
 };
 
+export const toYDK = (deck: DeckData): string => [
+  '#created by DuelMath',
+  '#main',
+  ...deck.main,
+  '#extra',
+  ...deck.extra,
+  '!side',
+  ...deck.side
+].join('\n');
+
 export const analyzeDeck = async (deck: DeckData): Promise<DeckAnalysis> => {
   const mainCards = await fetchCardData(deck.main);
   const extraCards = await fetchCardData(deck.extra);
@@ -132,4 +191,4 @@ export const analyzeDeck = async (deck: DeckData): Promise<DeckAnalysis> => {
       side: deck.side.length
     }
   };
-};
\ No newline at end of file
+};
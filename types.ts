@@ -38,19 +38,45 @@ export interface DeckAnalysis {
   };
 }
 
+export type GameResult = 'win' | 'loss' | 'draw';
+
+/**
+ * Match outcome. 'unfinished' covers matches logged before they ended.
+ */
+export type MatchResult = GameResult | 'unfinished';
+
+export interface GameReport {
+  wentFirst: boolean;
+  result: GameResult;
+  opponentKeyCards: string;
+  sidePlan: string;
+  /** Saved side plan used for this game, if any; sidePlan then holds its name. */
+  sidePlanId?: string;
+  notes: string;
+}
+
 export interface TournamentReport {
   id: string;
   round: number;
   matchup: string;
   wonDiceRoll: boolean;
-  result: 'win' | 'loss';
+  result: MatchResult;
+  /** Games of the match in order, when logged individually. */
+  games?: GameReport[];
+  /** Time was called before the match was decided. */
+  timeCalled?: boolean;
   notes: string;
   timestamp: number;
+  /** The opponent's final Swiss record, used for tiebreakers. */
+  opponentRecord?: { wins: number; losses: number; draws: number };
 }
 
 export interface TournamentMetadata {
   eventName: string;
   deckName: string;
+  playerName?: string;
+  /** Konami CARD GAME ID, as written on the decklist. */
+  playerId?: string;
   deckCounts?: {
     main: number;
     extra: number;
@@ -58,11 +84,91 @@ export interface TournamentMetadata {
   };
 }
 
+/**
+ * A named opponent deck. Logged matchups matching the name or any alias count as this archetype.
+ */
+export interface Archetype {
+  id: string;
+  name: string;
+  aliases: string[];
+  /** Representative cards, used for artwork. */
+  cardIds: number[];
+}
+
+export interface SideCardCount {
+  name: string;
+  count: number;
+}
+
+/**
+ * Cards to side in from the side deck and out of the main deck for one matchup and play order.
+ */
+export interface SidePlan {
+  id: string;
+  name: string;
+  matchup: string;
+  playOrder: 'first' | 'second';
+  cardsIn: SideCardCount[];
+  cardsOut: SideCardCount[];
+}
+
+export type BanStatus = 'Forbidden' | 'Limited' | 'Semi-Limited';
+
+export type BanlistFormat = 'tcg' | 'ocg' | 'goat' | 'edison';
+
+/**
+ * A dated banlist loaded from a JSON file, for retro formats or lists not yet live in the card database.
+ * Cards not listed are unlimited.
+ */
+export interface BanlistSnapshot {
+  id: string;
+  name: string;
+  format: BanlistFormat;
+  /** Effective date as YYYY-MM-DD. */
+  date: string;
+  /** Keyed by card ID, or by lowercase card name for entries given by name. */
+  cards: Record<string, BanStatus>;
+}
+
+/**
+ * The banlist legality is checked against. Without a snapshot, the format's live list from the card database is used.
+ */
+export interface BanlistSelection {
+  format: BanlistFormat;
+  snapshotId: string | null;
+}
+
+/**
+ * One event in the tournament library, with its own rounds and a snapshot of the deck played.
+ */
+export interface TournamentEvent {
+  id: string;
+  metadata: TournamentMetadata;
+  reports: TournamentReport[];
+  /** Event date as YYYY-MM-DD. */
+  date: string;
+  format: string;
+  /** YDK content of the deck as registered. */
+  deckSnapshot?: string;
+  /** Final placement as entered, e.g. "Top 8" or "37th". */
+  placement: string;
+  archived: boolean;
+  createdAt: number;
+}
+
+export type CardRole = 'starter' | 'extender' | 'handtrap' | 'brick' | 'garnet';
+
+/**
+ * Roles tagged by the user, keyed by card name. A card may carry several roles.
+ */
+export type CardRoleMap = Record<string, CardRole[]>;
+
 export enum AppView {
   DASHBOARD = 'DASHBOARD',
   CALCULATOR = 'CALCULATOR',
   SWISS_CALCULATOR = 'SWISS_CALCULATOR',
   HYPER_CALC = 'HYPER_CALC',
   DECK_BUILDER = 'DECK_BUILDER',
-  TOURNAMENT_TRACKER = 'TOURNAMENT_TRACKER'
+  TOURNAMENT_TRACKER = 'TOURNAMENT_TRACKER',
+  MATCHUP_ANALYTICS = 'MATCHUP_ANALYTICS'
 }